@@ -0,0 +1,59 @@
+"use server";
+
+import type { WebhookEvent } from "@clerk/nextjs/server";
+import type Stripe from "stripe";
+import { revalidatePath } from "next/cache";
+import { handleWebhookEvent } from "../api/webhooks/clerk/route";
+import { handleStripeEvent } from "../api/webhooks/stripe/route";
+import { getLoggedEvent, getRawBody, recordEvent, type PipelineResult } from "../utils/event-log";
+import { requireAdmin } from "./require-admin";
+
+/**
+ * Re-runs a logged event through the current pipeline, skipping signature
+ * verification and deduplication, and logs the outcome as a new entry
+ */
+export async function replayEvent(id: string) {
+  await requireAdmin();
+
+  const original = await getLoggedEvent(id);
+  if (!original) {
+    throw new Error(`No logged event with id ${id}`);
+  }
+  // Unverified bodies were never trusted, so they aren't stored to replay
+  if (!original.verified) {
+    throw new Error("Only verified events can be replayed");
+  }
+  const rawBody = await getRawBody(original.id);
+  if (rawBody === undefined) {
+    throw new Error(`The body of logged event ${id} is no longer stored`);
+  }
+
+  const receivedAt = new Date();
+  let result: PipelineResult;
+  let error: string | undefined;
+  try {
+    const event = JSON.parse(rawBody);
+    result = original.source === "clerk"
+      ? await handleWebhookEvent(event as WebhookEvent)
+      : (await handleStripeEvent(event as Stripe.Event)).result;
+  } catch (replayError) {
+    result = { status: "failed", triggers: [] };
+    error = replayError instanceof Error ? replayError.message : String(replayError);
+  }
+
+  await recordEvent({
+    source: original.source,
+    eventId: original.eventId,
+    type: original.type,
+    verified: true,
+    ...result,
+    error,
+    body: original.body,
+    rawBody,
+    receivedAt: receivedAt.toISOString(),
+    durationMs: Date.now() - receivedAt.getTime(),
+    replayOf: original.id,
+  });
+
+  revalidatePath("/admin");
+}
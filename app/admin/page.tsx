@@ -0,0 +1,187 @@
+import Link from "next/link";
+import { UserButton } from "@clerk/nextjs";
+import { ClerkLogo } from "../components/clerk-logo";
+import { NovuLogo } from "../components/novu-logo";
+import { Footer } from "../components/footer";
+import { listLoggedEvents, type EventLogFilter, type EventStatus, type LoggedEvent } from "../utils/event-log";
+import type { WebhookSource } from "../utils/idempotency";
+import { replayEvent } from "./actions";
+import { requireAdmin } from "./require-admin";
+
+const SOURCES: WebhookSource[] = ["clerk", "stripe"];
+const STATUSES: EventStatus[] = ["processed", "unrouted", "filtered", "duplicate", "rejected", "failed"];
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+function param(searchParams: SearchParams, name: string): string | undefined {
+  const value = searchParams[name];
+  return (Array.isArray(value) ? value[0] : value) || undefined;
+}
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+function StatusBadge({ event }: { event: LoggedEvent }) {
+  const color =
+    event.status === "processed"
+      ? "bg-green-50 text-green-700"
+      : event.status === "failed" || event.status === "rejected"
+        ? "bg-red-50 text-red-700"
+        : "bg-[#F1F1F2] text-[#5E5F6E]";
+
+  return <span className={`rounded px-1.5 py-0.5 font-mono text-xs ${color}`}>{event.status}</span>;
+}
+
+function EventRow({ event }: { event: LoggedEvent }) {
+  return (
+    <tr className="border-t border-[#EEEEF0] align-top">
+      <td className="py-2 pr-4 whitespace-nowrap">{formatTime(event.receivedAt)}</td>
+      <td className="py-2 pr-4 capitalize">{event.source}</td>
+      <td className="py-2 pr-4 font-mono">
+        {event.type || "unknown"}
+        {event.replayOf ? <span className="block text-[#7D7D7E]">replay of {event.replayOf.slice(0, 8)}</span> : null}
+      </td>
+      <td className="py-2 pr-4">{event.verified ? "verified" : "rejected"}</td>
+      <td className="py-2 pr-4 font-mono">
+        {event.triggers.length === 0
+          ? "—"
+          : event.triggers.map((trigger, index) => (
+              <span key={index} className="block">
+                {trigger.workflowId} → {trigger.subscriberId || "topic"} ({trigger.outcome})
+              </span>
+            ))}
+      </td>
+      <td className="py-2 pr-4">
+        <StatusBadge event={event} />
+        {event.error ? <span className="block text-red-700">{event.error}</span> : null}
+        {event.body ? (
+          <details className="mt-1">
+            <summary className="cursor-pointer text-[#5E5F6E]">Body (redacted)</summary>
+            <pre className="max-w-[32rem] overflow-x-auto whitespace-pre-wrap break-all font-mono">{event.body}</pre>
+          </details>
+        ) : null}
+      </td>
+      <td className="py-2 pr-4 text-right">{event.durationMs} ms</td>
+      <td className="py-2 text-right">
+        {event.verified ? (
+          <form action={replayEvent.bind(null, event.id)}>
+            <button className="rounded border border-black px-2 py-0.5 hover:bg-black hover:text-white">Replay</button>
+          </form>
+        ) : null}
+      </td>
+    </tr>
+  );
+}
+
+export default async function AdminPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  await requireAdmin();
+
+  const params = await searchParams;
+  const filter: EventLogFilter = {
+    source: param(params, "source") as WebhookSource | undefined,
+    type: param(params, "type"),
+    status: param(params, "status") as EventStatus | undefined,
+    from: param(params, "from"),
+    to: param(params, "to"),
+  };
+  const events = await listLoggedEvents(filter);
+
+  return (
+    <>
+      <main className="max-w-[75rem] w-full mx-auto pb-10">
+        <header className="flex items-center justify-between w-full h-16 gap-4">
+          <div className="flex gap-4">
+            <ClerkLogo />
+            <div aria-hidden className="w-px h-6 bg-[#C7C7C8]" />
+            <NovuLogo />
+          </div>
+          <div className="flex items-center gap-4 text-[0.8125rem] font-medium">
+            <Link href="/dashboard">Dashboard</Link>
+            <UserButton
+              appearance={{
+                elements: {
+                  userButtonAvatarBox: "size-6",
+                },
+              }}
+            />
+          </div>
+        </header>
+
+        <h1 className="text-[1.0625rem] font-semibold mb-4">Webhook events</h1>
+
+        <form className="flex flex-wrap items-end gap-3 mb-6 text-xs">
+          <label className="flex flex-col gap-1">
+            Source
+            <select name="source" defaultValue={filter.source || ""} className="border rounded px-2 py-1">
+              <option value="">All</option>
+              {SOURCES.map((source) => (
+                <option key={source} value={source}>
+                  {source}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            Type
+            <input name="type" defaultValue={filter.type} placeholder="user.created" className="border rounded px-2 py-1" />
+          </label>
+          <label className="flex flex-col gap-1">
+            Status
+            <select name="status" defaultValue={filter.status || ""} className="border rounded px-2 py-1">
+              <option value="">All</option>
+              {STATUSES.map((status) => (
+                <option key={status} value={status}>
+                  {status}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            From
+            <input type="date" name="from" defaultValue={filter.from} className="border rounded px-2 py-1" />
+          </label>
+          <label className="flex flex-col gap-1">
+            To
+            <input type="date" name="to" defaultValue={filter.to} className="border rounded px-2 py-1" />
+          </label>
+          <button className="rounded bg-black text-white px-3 py-1.5">Filter</button>
+          <Link href="/admin" className="px-1 py-1.5 text-[#5E5F6E]">
+            Reset
+          </Link>
+        </form>
+
+        {events.length === 0 ? (
+          <p className="text-xs text-[#7D7D7E]">No webhook events match these filters.</p>
+        ) : (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-[#5E5F6E]">
+                <th className="pb-2 font-medium">Received</th>
+                <th className="pb-2 font-medium">Source</th>
+                <th className="pb-2 font-medium">Type</th>
+                <th className="pb-2 font-medium">Verification</th>
+                <th className="pb-2 font-medium">Workflow → subscriber</th>
+                <th className="pb-2 font-medium">Status</th>
+                <th className="pb-2 font-medium text-right">Time</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((event) => (
+                <EventRow key={event.id} event={event} />
+              ))}
+            </tbody>
+          </table>
+        )}
+      </main>
+      <Footer />
+    </>
+  );
+}
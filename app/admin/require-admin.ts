@@ -0,0 +1,21 @@
+import { auth } from "@clerk/nextjs/server";
+import { adminUserIds } from "../utils/config";
+
+/**
+ * Ensures the signed-in user may use the admin pages.
+ * The middleware already requires a session; access is further limited to the
+ * comma-separated Clerk user IDs in `ADMIN_USER_IDS`. The admin pages expose raw
+ * events and can replay them, so nobody is an admin when the list is empty.
+ */
+export async function requireAdmin(): Promise<string> {
+  const { userId } = await auth();
+  if (!userId) {
+    throw new Error("Not signed in");
+  }
+
+  if (!adminUserIds().includes(userId)) {
+    throw new Error("Not an admin");
+  }
+
+  return userId;
+}
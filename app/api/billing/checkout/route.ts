@@ -0,0 +1,57 @@
+import { auth, currentUser } from "@clerk/nextjs/server";
+import { NextResponse, NextRequest } from "next/server";
+import { getStripe } from "../../../utils/stripe-client";
+import { stripeApiConfig } from "../../../utils/config";
+import {
+  CLERK_ORGANIZATION_ID_METADATA_KEY,
+  CLERK_USER_ID_METADATA_KEY,
+  createCustomerForUser,
+  getCustomerIdForUser,
+} from "../../../utils/identity-links";
+
+/**
+ * Starts a subscription Checkout session for the signed-in user and redirects to it.
+ * A user without a customer gets one, linked to them, before the session is created, so
+ * every billing event resolves to the user whatever order Stripe delivers them in.
+ * The active organization, if any, is sent too so billing notifications are branded for it.
+ */
+export async function POST(request: NextRequest) {
+  const { userId, orgId } = await auth();
+  if (!userId) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const { priceId } = stripeApiConfig();
+  if (!priceId) {
+    return new Response("Please add STRIPE_PRICE_ID to .env", { status: 500 });
+  }
+
+  let customerId = await getCustomerIdForUser(userId);
+  if (!customerId) {
+    const user = await currentUser();
+    customerId = await createCustomerForUser(userId, {
+      email: user?.primaryEmailAddress?.emailAddress,
+      name: user?.fullName || undefined,
+      organizationId: orgId || undefined,
+    });
+  }
+  const dashboardUrl = new URL("/dashboard", request.nextUrl.origin);
+
+  const session = await getStripe().checkout.sessions.create({
+    mode: "subscription",
+    line_items: [{ price: priceId, quantity: 1 }],
+    client_reference_id: userId,
+    metadata: {
+      [CLERK_USER_ID_METADATA_KEY]: userId,
+      ...(orgId ? { [CLERK_ORGANIZATION_ID_METADATA_KEY]: orgId } : {}),
+    },
+    customer: customerId,
+    success_url: `${dashboardUrl}?checkout=success`,
+    cancel_url: `${dashboardUrl}?checkout=canceled`,
+  });
+
+  if (!session.url) {
+    return new Response("Checkout session has no URL", { status: 502 });
+  }
+  return NextResponse.redirect(session.url, 303);
+}
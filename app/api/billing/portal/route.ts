@@ -0,0 +1,26 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse, NextRequest } from "next/server";
+import { getStripe } from "../../../utils/stripe-client";
+import { getCustomerIdForUser } from "../../../utils/identity-links";
+
+/**
+ * Opens the Stripe Customer Portal for the signed-in user's linked customer
+ */
+export async function POST(request: NextRequest) {
+  const { userId } = await auth();
+  if (!userId) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const customerId = await getCustomerIdForUser(userId);
+  if (!customerId) {
+    return new Response("No billing account is linked to this user", { status: 404 });
+  }
+
+  const session = await getStripe().billingPortal.sessions.create({
+    customer: customerId,
+    return_url: new URL("/dashboard", request.nextUrl.origin).toString(),
+  });
+
+  return NextResponse.redirect(session.url, 303);
+}
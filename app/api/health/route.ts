@@ -0,0 +1,13 @@
+import { validateConfig } from '../../utils/config';
+
+/**
+ * Reports which webhook sources and transports are configured, naming any missing
+ * variables but never their values. Responds 503 when no source can be verified
+ * or a transport or setting is invalid, so it can back an uptime or deployment check.
+ */
+export async function GET() {
+    const report = validateConfig();
+    const healthy = report.problems.length === 0 && Object.values(report.sources).some((source) => source.configured);
+
+    return Response.json({ status: healthy ? 'ok' : 'misconfigured', ...report }, { status: healthy ? 200 : 503 });
+}
@@ -0,0 +1,17 @@
+import { renderMetrics } from '../../utils/metrics';
+import { hasBearerToken } from '../../utils/webhook-utils';
+import { apiTokens } from '../../utils/config';
+
+/**
+ * Exposes the pipeline metrics in the Prometheus text format.
+ * Scrape it with `Authorization: Bearer <METRICS_API_TOKEN>`.
+ */
+export async function GET(request: Request) {
+    if (!hasBearerToken(request, apiTokens().metrics)) {
+        return new Response('Unauthorized', { status: 401 });
+    }
+
+    return new Response(renderMetrics(), {
+        headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
+    });
+}
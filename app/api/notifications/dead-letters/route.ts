@@ -0,0 +1,39 @@
+import { deliverTrigger } from '../route';
+import { listDeadLetters, replayDeadLetter } from '../../../utils/retry-queue';
+import { hasBearerToken } from '../../../utils/webhook-utils';
+import { apiTokens } from '../../../utils/config';
+
+/**
+ * Lists the Novu triggers that ran out of retry attempts
+ */
+export async function GET(request: Request) {
+    if (!hasBearerToken(request, apiTokens().notifications)) {
+        return new Response('Unauthorized', { status: 401 });
+    }
+
+    return Response.json(await listDeadLetters());
+}
+
+/**
+ * Replays a dead-lettered trigger, given as `{ "id": "<job id>" }`
+ */
+export async function POST(request: Request) {
+    if (!hasBearerToken(request, apiTokens().notifications)) {
+        return new Response('Unauthorized', { status: 401 });
+    }
+
+    const { id } = await request.json().catch(() => ({}));
+    if (typeof id !== 'string') {
+        return new Response('Missing dead letter id', { status: 400 });
+    }
+
+    try {
+        const replayed = await replayDeadLetter(id, deliverTrigger);
+        if (!replayed) {
+            return new Response(`No dead letter with id ${id}`, { status: 404 });
+        }
+        return new Response('Dead letter replayed', { status: 200 });
+    } catch (error) {
+        return new Response(`Replay failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { status: 502 });
+    }
+}
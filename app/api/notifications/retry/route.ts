@@ -0,0 +1,20 @@
+import { deliverTrigger } from '../route';
+import { processRetryQueue } from '../../../utils/retry-queue';
+import { hasBearerToken } from '../../../utils/webhook-utils';
+import { apiTokens } from '../../../utils/config';
+
+/**
+ * Retries the queued Novu triggers that are due.
+ * Called every five minutes by the cron job in `vercel.json`, or by any other scheduler,
+ * with `Authorization: Bearer <NOTIFICATIONS_API_TOKEN>`.
+ */
+export async function GET(request: Request) {
+    if (!hasBearerToken(request, apiTokens().notifications)) {
+        return new Response('Unauthorized', { status: 401 });
+    }
+
+    const summary = await processRetryQueue(deliverTrigger);
+    return Response.json(summary);
+}
+
+export const POST = GET;
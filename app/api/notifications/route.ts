@@ -1,17 +1,147 @@
-import { Novu } from '@novu/api';
-const novu = new Novu({
-    secretKey: process.env['NOVU_SECRET_KEY']
-});
+import type { Subscriber } from '../../utils/subscriber';
+import { enqueueTrigger, type TriggerRequest } from '../../utils/retry-queue';
+import { shouldTriggerWorkflow, type ChannelPreferences } from '../../utils/notification-preferences';
+import { resolveOrganizationScope } from '../../utils/organization-context';
+import { getNotificationTransport } from '../../utils/notification-transport';
+import { logger } from '../../utils/logger';
+import { notificationTriggerDuration, notificationTriggers } from '../../utils/metrics';
 
-export async function triggerWorkflow(workflowId: string, subscriber: object, payload: object) {
+/**
+ * Sends a trigger through the configured transport, throwing when it fails
+ */
+export async function deliverTrigger(request: TriggerRequest) {
+    await notificationTriggerDuration.time({ workflow: request.workflowId }, () =>
+        getNotificationTransport().trigger(request)
+    );
+}
+
+/**
+ * Sends a trigger, queueing it for retry when Novu fails so the notification isn't lost
+ */
+async function sendTrigger(request: TriggerRequest) {
     try {
-        await novu.trigger({
-            workflowId,
-            to: subscriber,
-            payload
-        });
+        await deliverTrigger(request);
+        notificationTriggers.inc({ workflow: request.workflowId, outcome: 'succeeded' });
         return new Response('Notification triggered', { status: 200 });
     } catch (error) {
-        return new Response('Error triggering notification', { status: 500 });
+        notificationTriggers.inc({ workflow: request.workflowId, outcome: 'failed' });
+        try {
+            const job = await enqueueTrigger(request, error);
+            logger.error('Novu trigger failed, queued for retry', { workflowId: request.workflowId, jobId: job.id, error });
+            return new Response('Notification queued for retry', { status: 202 });
+        } catch (queueError) {
+            logger.error('Novu trigger failed and could not be queued', { workflowId: request.workflowId, error: queueError });
+            return new Response('Error triggering notification', { status: 500 });
+        }
+    }
+}
+
+/**
+ * Scopes a trigger to an organization, or returns null when the organization disabled the workflow
+ */
+async function scopeTrigger(request: TriggerRequest, organizationId?: string): Promise<TriggerRequest | null> {
+    const scope = await resolveOrganizationScope(request.workflowId, organizationId);
+    if (scope.disabled) {
+        return null;
+    }
+    return {
+        ...request,
+        payload: scope.organization ? { ...request.payload, organization: scope.organization } : request.payload,
+        tenant: scope.tenant,
+        overrides: scope.overrides
+    };
+}
+
+/**
+ * Triggers a workflow for one subscriber, unless their preferences turn off every channel of its category
+ * @param organizationId The Clerk organization the trigger belongs to, used for branding and per-org overrides
+ */
+export async function triggerWorkflow(
+    workflowId: string,
+    subscriber: Subscriber,
+    payload: Record<string, unknown>,
+    organizationId?: string
+) {
+    if (!(await shouldTriggerWorkflow(workflowId, subscriber.subscriberId))) {
+        logger.info('Skipping workflow disabled by notification preferences', { workflowId, subscriberId: subscriber.subscriberId });
+        notificationTriggers.inc({ workflow: workflowId, outcome: 'skipped' });
+        return new Response(null, { status: 204 });
+    }
+
+    const request = await scopeTrigger({ workflowId, to: subscriber, payload }, organizationId);
+    if (!request) {
+        logger.info('Skipping workflow disabled for organization', { workflowId, organizationId });
+        notificationTriggers.inc({ workflow: workflowId, outcome: 'skipped' });
+        return new Response(null, { status: 204 });
+    }
+    return sendTrigger(request);
+}
+
+/**
+ * Creates the subscriber in Novu, or updates it when the subscriberId already exists
+ */
+export async function upsertSubscriber(subscriber: Subscriber) {
+    await getNotificationTransport().upsertSubscriber(subscriber);
+}
+
+/**
+ * Deletes the subscriber and its notification history from Novu
+ */
+export async function removeSubscriber(subscriberId: string) {
+    await getNotificationTransport().removeSubscriber(subscriberId);
+}
+
+/**
+ * Clears every personal field on the subscriber while keeping its ID and history
+ */
+export async function anonymizeSubscriber(subscriberId: string) {
+    await getNotificationTransport().anonymizeSubscriber(subscriberId);
+}
+
+/**
+ * Sets which channels a workflow may use for the subscriber
+ */
+export async function updateWorkflowPreferences(subscriberId: string, workflowId: string, channels: ChannelPreferences) {
+    await getNotificationTransport().updateWorkflowPreferences(subscriberId, workflowId, channels);
+}
+
+/**
+ * Triggers a workflow for every subscriber of a topic with a single call
+ */
+export async function triggerTopicWorkflow(
+    workflowId: string,
+    topicKey: string,
+    payload: Record<string, unknown>,
+    organizationId?: string
+) {
+    const request = await scopeTrigger({ workflowId, to: { type: 'Topic', topicKey }, payload }, organizationId);
+    if (!request) {
+        logger.info('Skipping workflow disabled for organization', { workflowId, organizationId });
+        notificationTriggers.inc({ workflow: workflowId, outcome: 'skipped' });
+        return new Response(null, { status: 204 });
     }
-}
\ No newline at end of file
+    return sendTrigger(request);
+}
+
+export async function createTopic(topicKey: string, name: string) {
+    await getNotificationTransport().createTopic(topicKey, name);
+}
+
+export async function renameTopic(topicKey: string, name: string) {
+    await getNotificationTransport().renameTopic(topicKey, name);
+}
+
+/**
+ * Deletes the topic, unassigning its subscribers first
+ */
+export async function deleteTopic(topicKey: string) {
+    await getNotificationTransport().deleteTopic(topicKey);
+}
+
+export async function addTopicSubscribers(topicKey: string, subscriberIds: string[]) {
+    await getNotificationTransport().addTopicSubscribers(topicKey, subscriberIds);
+}
+
+export async function removeTopicSubscribers(topicKey: string, subscriberIds: string[]) {
+    await getNotificationTransport().removeTopicSubscribers(topicKey, subscriberIds);
+}
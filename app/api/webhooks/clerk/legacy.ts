@@ -1,7 +1,10 @@
-import { Webhook } from 'svix';
 import { headers } from 'next/headers';
 import { WebhookEvent } from '@clerk/nextjs/server';
 import { triggerWorkflow } from '../../notifications/route';
+import { emailPayloadBuilders, isKnownEmailSlug } from '../../../utils/clerk-email-payloads';
+import { logger } from '../../../utils/logger';
+import { clerkWebhookConfig } from '../../../utils/config';
+import { svixHeaders, verifySvixWebhook } from '../../../utils/webhook-verification';
 
 // Define interfaces for type safety and clarity
 interface Subscriber {
@@ -18,88 +21,6 @@ interface Subscriber {
   };
 }
 
-interface EmailPayload {
-  subject: string;
-  [key: string]: any; // Flexible key-value pairs for additional email-specific data
-}
-
-// const payload = {
-//     verification_code: {
-//         workflowId: 'clerk-verification-code',
-
-//         payload: {
-//             subject: emailData.subject || '',
-//             otp_code: emailData.otp_code || '',
-//             app: { name: emailData.app?.name || '' },
-//             requested_by: emailData.requested_by || '',
-//             requested_from: emailData.requested_from || '',
-//             requested_at: emailData.requested_at || '',
-//             device: emailData.requested_by || ''
-//         }
-//     }
-// }
-// Mapping of email slugs to payload builders for cleaner event handling
-const emailPayloadBuilders: Record<string, (emailData: any) => EmailPayload> = {
-  verification_code: (emailData) => ({
-    subject: emailData.subject || '',
-    otp_code: emailData.otp_code || '',
-    app: { name: emailData.app?.name || '' },
-    requested_by: emailData.requested_by || '',
-    requested_from: emailData.requested_from || '',
-    requested_at: emailData.requested_at || '',
-    device: emailData.requested_by || ''
-  }),
-  password_changed: (emailData) => ({
-    subject: emailData.subject || '',
-    greeting_name: emailData.greeting_name || '',
-    primary_email_address: emailData.primary_email_address || '',
-    app: { name: emailData.app?.name || '' },
-    requested_by: emailData.requested_by || '',
-    requested_from: emailData.requested_from || '',
-    requested_at: emailData.requested_at || '',
-    device: emailData.requested_by || ''
-  }),
-  magic_link_sign_in: (emailData) => ({
-    subject: emailData.subject || '',
-    magic_link: emailData.magic_link || '',
-    app: { name: emailData.app?.name || '' },
-    ttl_minutes: emailData.ttl_minutes || '',
-    requested_by: emailData.requested_by || '',
-    requested_from: emailData.requested_from || '',
-    requested_at: emailData.requested_at || '',
-    device: emailData.requested_by || ''
-  }),
-  reset_password_code: (emailData) => ({
-    subject: emailData.subject || '',
-    otp_code: emailData.otp_code || '',
-    app_name: emailData.app?.name || '',
-    requested_by: emailData.requested_by || '',
-    requested_from: emailData.requested_from || '',
-    requested_at: emailData.requested_at || '',
-    device: emailData.requested_by || ''
-  }),
-  organization_invitation: (emailData) => ({
-    subject: emailData.subject || '',
-    inviter_name: emailData.inviter_name || '',
-    org_name: emailData.org?.name || '',
-    app: { name: emailData.app?.name || '' },
-    action_url: emailData.action_url || '',
-    requested_by: emailData.requested_by || '',
-    requested_from: emailData.requested_from || '',
-    requested_at: emailData.requested_at || '',
-    device: emailData.requested_by || ''
-  }),
-  invitation: (emailData) => ({
-    subject: emailData.subject || '',
-    otp_code: emailData.otp_code || '',
-    app: { name: emailData.app?.name || '' },
-    requested_by: emailData.requested_by || '',
-    requested_from: emailData.requested_from || '',
-    requested_at: emailData.requested_at || '',
-    device: emailData.requested_by || ''
-  }),
-};
-
 /**
  * Main handler for incoming Clerk webhook requests.
  * Processes 'user.created' and 'email.created' events and triggers Novu workflows.
@@ -135,7 +56,7 @@ export async function POST(req: Request) {
 
     try {
       // Log the workflow trigger details for user creation
-      console.log('Triggering user.created workflow with:', {
+      logger.info('Triggering user.created workflow', {
         workflowId: 'clerk-user-created',
         subscriber,
         payload: {}
@@ -143,7 +64,7 @@ export async function POST(req: Request) {
       // Trigger the Novu workflow for user creation
       await triggerWorkflow('clerk-user-created', subscriber, {});
     } catch (error) {
-      console.error('Failed to trigger Novu workflow for user.created:', error);
+      logger.error('Failed to trigger Novu workflow for user.created', { error });
     }
   }
 
@@ -157,14 +78,14 @@ export async function POST(req: Request) {
     };
 
     // Look up the payload builder based on the email slug
-    const builder = emailPayloadBuilders[data.slug || ''];
+    const builder = isKnownEmailSlug(data.slug) ? emailPayloadBuilders[data.slug] : undefined;
     if (builder && emailData) {
-      const payload = builder(emailData);
+      const payload = { ...builder(emailData) };
       const workflowId = `${data.slug?.replace(/_/g, '-') || ''}`; // Convert slug to workflow ID
 
       try {
         // Log the workflow trigger details for email events
-        console.log('Triggering workflow with:', {
+        logger.info('Triggering workflow', {
           workflowId,
           subscriber,
           payload,
@@ -173,7 +94,7 @@ export async function POST(req: Request) {
         // Trigger the Novu workflow for the specific email event
         await triggerWorkflow(workflowId, subscriber, payload);
       } catch (error) {
-        console.error(`Failed to trigger Novu workflow for ${workflowId}:`, error);
+        logger.error('Failed to trigger Novu workflow', { workflowId, error });
       }
     }
   }
@@ -188,38 +109,20 @@ export async function POST(req: Request) {
  * @throws Error if verification fails or required data is missing.
  */
 async function verifyClerkWebhook(req: Request): Promise<WebhookEvent> {
-  const signingSecret = process.env.CLERK_SIGNING_SECRET;
-
-  // Ensure the signing secret is configured
-  if (!signingSecret) {
-    throw new Error('Error: Please add CLERK_SIGNING_SECRET from Clerk Dashboard to .env or .env.local');
-  }
-
-  const webhook = new Webhook(signingSecret);
+  // Throws a ConfigError naming SIGNING_SECRET when it isn't configured
+  const { signingSecrets, toleranceSeconds } = clerkWebhookConfig();
 
   // Extract Svix headers for verification
-  const headerPayload = await headers();
-  const svixId = headerPayload.get('svix-id');
-  const svixTimestamp = headerPayload.get('svix-timestamp');
-  const svixSignature = headerPayload.get('svix-signature');
-
-  if (!svixId || !svixTimestamp || !svixSignature) {
-    throw new Error('Missing Svix headers');
-  }
+  const validatedHeaders = svixHeaders(await headers());
 
-  // Parse the request body
-  const payload = await req.json();
-  const body = JSON.stringify(payload);
+  // Read the body exactly as it was signed
+  const body = await req.text();
 
   try {
-    // Verify the webhook signature
-    return webhook.verify(body, {
-      'svix-id': svixId,
-      'svix-timestamp': svixTimestamp,
-      'svix-signature': svixSignature,
-    }) as WebhookEvent;
+    // Verify the webhook signature against each accepted secret
+    return verifySvixWebhook<WebhookEvent>(body, validatedHeaders, { secrets: signingSecrets, toleranceSeconds });
   } catch (err) {
-    console.error('Error verifying webhook:', err);
+    logger.error('Error verifying webhook', { error: err });
     throw new Error('Webhook verification failed');
   }
 }
\ No newline at end of file
@@ -1,107 +1,133 @@
-import { Webhook } from 'svix'
 import { headers } from 'next/headers'
 import { WebhookEvent } from '@clerk/nextjs/server'
 import { triggerWorkflow } from '../../notifications/route'
+import { resolveClerkEvent } from '../../../utils/clerk-event-routes'
+import { syncSubscriber } from '../../../utils/subscriber-sync'
+import { syncOrganizationTopic } from '../../../utils/topic-sync'
+import { syncOrganizationConfig } from '../../../utils/organization-context'
+import { withIdempotency } from '../../../utils/idempotency'
+import { clerkWebhookConfig } from '../../../utils/config'
+import { loggedBody, recordEvent, triggerOutcome, type LoggedTrigger, type PipelineResult } from '../../../utils/event-log'
+import { addLogContext, correlationIdFrom, logger, withLogContext } from '../../../utils/logger'
+import { svixHeaders, verifySvixWebhook, WebhookVerificationError, type SvixHeaders } from '../../../utils/webhook-verification'
+import { UNVERIFIED_EVENT_TYPE, recordDelivery, webhookStepDuration, webhookVerificationDuration } from '../../../utils/metrics'
 
 export async function POST(request: Request) {
-    try {
-        const SIGNING_SECRET = process.env.SIGNING_SECRET
-        if (!SIGNING_SECRET) {
-            throw new Error('Please add SIGNING_SECRET from Clerk Dashboard to .env')
-        }
-
-        const webhook = new Webhook(SIGNING_SECRET)
-        const headerPayload = await headers()
-        const validatedHeaders = validateHeaders(headerPayload)
+    return withLogContext({ source: 'clerk', correlationId: correlationIdFrom(request.headers) }, () => receiveWebhook(request))
+}
 
-        const payload = await request.json()
-        const body = JSON.stringify(payload)
+const receiveWebhook = async (request: Request) => {
+    const receivedAt = new Date()
+    let svixId: string | undefined
+    let body = ''
+    let event: WebhookEvent | undefined
 
-        const event = await verifyWebhook(webhook, body, {
-            'svix-id': validatedHeaders.svix_id,
-            'svix-timestamp': validatedHeaders.svix_timestamp,
-            'svix-signature': validatedHeaders.svix_signature,
+    try {
+        const { signingSecrets, toleranceSeconds } = clerkWebhookConfig()
+        // Verified as received: parsing and re-serializing could change the signed bytes
+        body = await request.text()
+
+        const validatedHeaders = svixHeaders(await headers())
+        svixId = validatedHeaders.id
+        addLogContext({ eventId: svixId })
+
+        const verifiedEvent = await webhookVerificationDuration.time({ source: 'clerk' }, () =>
+            verifyWebhook(body, validatedHeaders, signingSecrets, toleranceSeconds)
+        )
+        event = verifiedEvent
+        recordDelivery('clerk', verifiedEvent.type, true)
+
+        let result: PipelineResult = { status: 'duplicate', triggers: [] }
+        const response = await withIdempotency('clerk', validatedHeaders.id, async () => {
+            result = await handleWebhookEvent(verifiedEvent)
+            return new Response('Webhook received', { status: 200 })
         })
 
-        await handleWebhookEvent(event)
-
-        return new Response('Webhook received', { status: 200 })
+        await recordEvent({
+            source: 'clerk',
+            eventId: svixId,
+            type: verifiedEvent.type,
+            verified: true,
+            ...result,
+            ...loggedBody(verifiedEvent, body),
+            receivedAt: receivedAt.toISOString(),
+            durationMs: Date.now() - receivedAt.getTime(),
+        })
+        return response
     } catch (error) {
-        console.error('Webhook processing error:', error)
-        return new Response(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`, { status: 400 })
-    }
-}
-
-const handleWebhookEvent = async (event: WebhookEvent) => {
-    if (event.type !== "user.created" && event.type !== "email.created") {
-        return
+        logger.error('Webhook processing error', { error })
+        if (!event) {
+            recordDelivery('clerk', UNVERIFIED_EVENT_TYPE, false)
+        }
+        await recordEvent({
+            source: 'clerk',
+            eventId: svixId,
+            type: event?.type,
+            verified: Boolean(event),
+            status: event ? 'failed' : 'rejected',
+            triggers: [],
+            error: error instanceof Error ? error.message : String(error),
+            // Bodies that failed verification came from anyone, so only verified ones are kept
+            ...(event && loggedBody(event, body)),
+            receivedAt: receivedAt.toISOString(),
+            durationMs: Date.now() - receivedAt.getTime(),
+        })
+        if (error instanceof WebhookVerificationError) {
+            return Response.json({ error: error.code, message: error.message }, { status: 400 })
+        }
+        // A 5xx makes Svix retry the delivery, which withIdempotency lets through since it is marked failed
+        return new Response(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`, { status: 500 })
     }
-
-    const workflow = await workflowBuilder(event)
-    const subscriber = await subscriberBuilder(event)
-    const payload = await payloadBuilder(event)
-
-    console.log("Triggering workflow:", workflow, "Subscriber:", subscriber, "Payload:", payload)
-    await triggerWorkflow(workflow, subscriber, payload)
 }
 
-async function workflowBuilder(event: WebhookEvent) {
-    let workflow = "";
-    if (event.type === "user.created") {
-        workflow = "user-created";
-    } else if (event.type === "email.created") {
-        workflow = `${event.data.slug?.replace(/_/g, '-') || ''}`;
+/**
+ * Runs a verified Clerk event through subscriber sync and workflow routing.
+ * Exported so logged events can be replayed through the same pipeline.
+ */
+export const handleWebhookEvent = async (event: WebhookEvent): Promise<PipelineResult> => {
+    const step = (name: string) => ({ source: 'clerk', step: name })
+    const subscriberSynced = await webhookStepDuration.time(step('subscriber_sync'), () => syncSubscriber(event))
+    const topicSynced = await webhookStepDuration.time(step('topic_sync'), () => syncOrganizationTopic(event))
+    const configSynced = await webhookStepDuration.time(step('organization_config_sync'), () => syncOrganizationConfig(event))
+    const resolution = await webhookStepDuration.time(step('route_resolution'), () => resolveClerkEvent(event))
+
+    if (resolution.status === 'unrouted') {
+        // Sync-only events such as user.deleted have no workflows to trigger
+        if (subscriberSynced || topicSynced || configSynced) {
+            return { status: 'processed', triggers: [] }
+        }
+        logger.warn('No workflow route registered for Clerk event type', { type: resolution.eventType })
+        return { status: 'unrouted', triggers: [] }
     }
-    return workflow;
-}
-
-async function subscriberBuilder(response: any) {
-
-    // Rely only on webhook event data
-    const webhookData = response.data;
-
-    // Get the user from Clerk (Optional)
-    // const user = await clerkClient.users.getUser(data.id);
 
-    // Build the subscriber data
-    return {
-        subscriberId: webhookData.id, // Required field
-        firstName: webhookData.first_name || '',
-        lastName: webhookData.last_name || '',
-        email: webhookData.email_addresses[0]?.email_address || '',
-        phone: webhookData.phone_numbers?.[0]?.phone_number || '',
-        locale: 'en_US', // Default locale
-        avatar: webhookData.image_url || '',
-        data: {
-            username: webhookData.username || '',
-            clerkUserId: webhookData.id || '',
-        },
+    if (resolution.status === 'filtered') {
+        return { status: 'filtered', triggers: [] }
     }
-}
-
-async function payloadBuilder(response: any) {
-    const webhookData = JSON.parse(response);
-    return webhookData;
-}
 
-const validateHeaders = (headerPayload: Headers) => {
-    const svix_id = headerPayload.get('svix-id')
-    const svix_timestamp = headerPayload.get('svix-timestamp')
-    const svix_signature = headerPayload.get('svix-signature')
-
-    if (!svix_id || !svix_timestamp || !svix_signature) {
-        throw new Error('Missing Svix headers')
+    const triggers: LoggedTrigger[] = []
+    for (const { workflowId, subscriber, payload, organizationId } of resolution.triggers) {
+        logger.info('Triggering workflow', { workflowId, subscriber, payload })
+        const response = await triggerWorkflow(workflowId, subscriber, payload, organizationId)
+        // Failed triggers are queued for retry; only a failure to queue is fatal
+        if (!response.ok) {
+            throw new Error(`Could not trigger or queue workflow ${workflowId}`)
+        }
+        triggers.push({ workflowId, subscriberId: subscriber.subscriberId, outcome: triggerOutcome(response) })
     }
-
-    return { svix_id, svix_timestamp, svix_signature }
+    return { status: 'processed', triggers }
 }
 
-const verifyWebhook = async (webhook: Webhook, body: string, headers: any): Promise<WebhookEvent> => {
+const verifyWebhook = async (
+    body: string,
+    headers: SvixHeaders,
+    signingSecrets: string[],
+    toleranceSeconds: number
+): Promise<WebhookEvent> => {
     try {
-        return webhook.verify(body, headers) as WebhookEvent
+        return verifySvixWebhook<WebhookEvent>(body, headers, { secrets: signingSecrets, toleranceSeconds })
     } catch (err) {
-        console.error('Error: Could not verify webhook:', err)
-        throw new Error('Verification error')
+        logger.error('Could not verify webhook', { error: err })
+        throw err
     }
 }
 
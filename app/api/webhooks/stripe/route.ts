@@ -1,64 +1,183 @@
-import Stripe from "stripe";
+import type Stripe from "stripe";
 import { NextResponse, NextRequest } from "next/server";
 import { triggerWorkflow } from "../../notifications/route";
-
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+import { withIdempotency } from "../../../utils/idempotency";
+import { loggedBody, recordEvent, triggerOutcome, type PipelineResult } from "../../../utils/event-log";
+import { expandableId, getStripeEventBuilder, isSupportedStripeEvent } from "../../../utils/stripe-payloads";
+import { SUBSCRIPTION_SYNC_EVENTS } from "../../../utils/subscription-store";
+import { syncStripeDataToKV } from "../../../utils/webhook-utils";
+import { getStripe } from "../../../utils/stripe-client";
+import { stripeWebhookConfig } from "../../../utils/config";
+import { verifyStripeWebhook, WebhookVerificationError } from "../../../utils/webhook-verification";
+import {
+  CLERK_ORGANIZATION_ID_METADATA_KEY,
+  linkCheckoutSession,
+  resolveClerkUserId,
+} from "../../../utils/identity-links";
+import type { Subscriber } from "../../../utils/subscriber";
+import { resolveLocale } from "../../../utils/locale";
+import { addLogContext, correlationIdFrom, logger, withLogContext } from "../../../utils/logger";
+import { UNVERIFIED_EVENT_TYPE, recordDelivery, webhookStepDuration, webhookVerificationDuration } from "../../../utils/metrics";
 
 export async function POST(request: NextRequest) {
+  return withLogContext({ source: "stripe", correlationId: correlationIdFrom(request.headers) }, () => receiveWebhook(request));
+}
+
+async function receiveWebhook(request: NextRequest) {
+  const receivedAt = new Date();
   const webhookPayload = await request.text();
-  const response = JSON.parse(webhookPayload);
 
   const signature = request.headers.get("Stripe-Signature");
+  let event: Stripe.Event | undefined;
 
   try {
-    let event = stripe.webhooks.constructEvent(
-      webhookPayload,
-      signature!,
-      process.env.STRIPE_WEBHOOK_SECRET!
+    const { webhookSecrets, toleranceSeconds } = stripeWebhookConfig();
+    event = await webhookVerificationDuration.time({ source: "stripe" }, () =>
+      verifyStripeWebhook(webhookPayload, signature, { secrets: webhookSecrets, toleranceSeconds })
     );
+    const verifiedEvent = event;
+    recordDelivery("stripe", event.type, true);
+    addLogContext({ eventId: event.id });
 
-    if (supportedEvents.includes(event.type)) {
-      const workflow = event.type.replaceAll(".", "-");
-      const subscriber = await buildSubscriberData(response);
-      const payload = await payloadBuilder(response);
-      console.log(
-        "Triggering workflow:", workflow,
-        "Subscriber:", subscriber,
-        "Payload:", payload
-      );
-      return await triggerWorkflow(workflow, subscriber, payload);
-    }
+    let result: PipelineResult = { status: "duplicate", triggers: [] };
+    const webhookResponse = await withIdempotency("stripe", event.id, async () => {
+      const handled = await handleStripeEvent(verifiedEvent);
+      result = handled.result;
+      return handled.response;
+    });
 
-    return NextResponse.json({ status: "sucess", event: event.type, response: response });
+    await recordEvent({
+      source: "stripe",
+      eventId: event.id,
+      type: event.type,
+      verified: true,
+      ...result,
+      ...loggedBody(event, webhookPayload),
+      receivedAt: receivedAt.toISOString(),
+      durationMs: Date.now() - receivedAt.getTime(),
+    });
+    return webhookResponse;
   } catch (error) {
-    return NextResponse.json({ status: "Failed", error });
+    logger.error("Webhook processing error", { error });
+    if (!event) {
+      recordDelivery("stripe", UNVERIFIED_EVENT_TYPE, false);
+    }
+    await recordEvent({
+      source: "stripe",
+      eventId: event?.id,
+      type: event?.type,
+      verified: Boolean(event),
+      status: event ? "failed" : "rejected",
+      triggers: [],
+      error: error instanceof Error ? error.message : String(error),
+      // Bodies that failed verification came from anyone, so only verified ones are kept
+      ...(event && loggedBody(event, webhookPayload)),
+      receivedAt: receivedAt.toISOString(),
+      durationMs: Date.now() - receivedAt.getTime(),
+    });
+    if (error instanceof WebhookVerificationError) {
+      return NextResponse.json({ status: "Failed", error: error.code, message: error.message }, { status: 400 });
+    }
+    // A 5xx makes Stripe retry the delivery, which withIdempotency lets through since it is marked failed
+    return NextResponse.json(
+      { status: "Failed", error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
   }
 }
 
-const supportedEvents = [
-  "customer.subscription.created",
-  "customer.subscription.updated",
-];
+/**
+ * Runs a verified Stripe event through the notification pipeline.
+ * Exported so logged events can be replayed through the same pipeline.
+ */
+export async function handleStripeEvent(event: Stripe.Event): Promise<{ response: Response; result: PipelineResult }> {
+  if (SUBSCRIPTION_SYNC_EVENTS.includes(event.type)) {
+    const customerId = expandableId((event.data.object as { customer?: string | { id: string } | null }).customer);
+    if (customerId) {
+      await webhookStepDuration.time({ source: "stripe", step: "subscription_sync" }, () => syncStripeDataToKV(customerId));
+    }
+  }
 
-async function buildSubscriberData(response: any) {
-  const customer = await stripe.customers.retrieve(response.data.object.customer);
-  console.log("Customer", customer);
-  
-  if ('deleted' in customer) {
-    throw new Error('Customer has been deleted');
+  if (!isSupportedStripeEvent(event)) {
+    return {
+      response: NextResponse.json({ status: "Success" }),
+      result: { status: "unrouted", triggers: [] },
+    };
   }
-  
+
+  const builder = getStripeEventBuilder(event);
+  const customerId = builder.customer(event);
+  // Guest checkouts and one-off charges may have no customer to notify
+  if (!customerId) {
+    return {
+      response: NextResponse.json({ status: "Success" }),
+      result: { status: "filtered", triggers: [] },
+    };
+  }
+
+  // Link the customer first so this and later triggers reach the Clerk-based subscriber
+  if (event.type === "checkout.session.completed") {
+    await linkCheckoutSession(event.data.object);
+  }
+
+  const workflow = event.type.replaceAll(".", "-").replaceAll("_", "-");
+  const customer = await webhookStepDuration.time({ source: "stripe", step: "customer" }, () => retrieveCustomer(customerId));
+  // Deleting a customer sends events for it too, which can never reach anyone
+  if (!customer) {
+    return {
+      response: NextResponse.json({ status: "Success" }),
+      result: { status: "filtered", triggers: [] },
+    };
+  }
+  const subscriber = await webhookStepDuration.time({ source: "stripe", step: "subscriber" }, () => buildSubscriberData(customer));
+  const organizationId = customer.metadata?.[CLERK_ORGANIZATION_ID_METADATA_KEY] || undefined;
+  const payload = await webhookStepDuration.time({ source: "stripe", step: "payload" }, () => builder.payload(event));
+  logger.info("Triggering workflow", { workflowId: workflow, subscriber, payload });
+  const response = await triggerWorkflow(workflow, subscriber, payload, organizationId);
+  const outcome = triggerOutcome(response);
+
+  return {
+    response,
+    result: {
+      status: outcome === "failed" ? "failed" : "processed",
+      triggers: [{ workflowId: workflow, subscriberId: subscriber.subscriberId, outcome }],
+    },
+  };
+}
+
+/**
+ * @returns The customer, or null when it has been deleted
+ */
+async function retrieveCustomer(customerId: string): Promise<Stripe.Customer | null> {
+  const customer = await getStripe().customers.retrieve(customerId);
+  logger.debug("Retrieved Stripe customer", { customer });
+
+  if ("deleted" in customer) {
+    logger.info("Skipping event for deleted Stripe customer", { customerId });
+    return null;
+  }
+  return customer;
+}
+
+async function buildSubscriberData(customer: Stripe.Customer): Promise<Subscriber> {
+  // Clerk owns the profile of linked users, so only the subscriber ID is sent
+  const clerkUserId = await resolveClerkUserId(customer);
+  if (clerkUserId) {
+    return { subscriberId: clerkUserId };
+  }
+  logger.warn("Stripe customer is not linked to a Clerk user, using the customer ID as subscriber", { customerId: customer.id });
+
   // Split the full name into first and last name
   const [firstName = '', lastName = ''] = (customer.name || '').split(' ');
   
   return {
     subscriberId: customer.id,
-    email: customer.email || 'test2@test.com',
+    // Customers without an email can still get in-app and SMS notifications
+    ...(customer.email ? { email: customer.email } : {}),
     firstName: firstName || '',
     lastName: lastName || '',
     phone: customer?.phone || '',
-    locale: customer?.preferred_locales?.[0] || 'en', // Use first preferred locale or default to 'en'
+    locale: resolveLocale({ stripePreferredLocales: customer.preferred_locales }),
     avatar: '', // Stripe customer doesn't have avatar
     data: {
       stripeCustomerId: customer.id,
@@ -66,8 +185,3 @@ async function buildSubscriberData(response: any) {
   };
 }
 
-async function payloadBuilder(response: any) {
-  const webhookData = JSON.parse(response);
-  return webhookData;
-}
-
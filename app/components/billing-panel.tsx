@@ -0,0 +1,107 @@
+import { auth } from "@clerk/nextjs/server";
+import { getSubscriptionStateForUser } from "../utils/subscription-store";
+import { formatAmount } from "../utils/stripe-payloads";
+import { isStripeConfigured } from "../utils/config";
+
+function Row({ desc, value }: { desc: string; value: string }) {
+  return (
+    <div className="h-[2.125rem] grid grid-cols-2 items-center">
+      <span className="text-xs font-semibold block">{desc}</span>
+      <span className="text-xs text-[#7D7D7E] font-mono block truncate">{value}</span>
+    </div>
+  );
+}
+
+function formatDate(timestamp: number) {
+  return new Date(timestamp * 1000).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/**
+ * Renders nothing in deployments without Stripe, which only use the Clerk webhooks
+ */
+export async function BillingPanel() {
+  if (!isStripeConfigured()) return null;
+
+  const { userId } = await auth();
+  if (!userId) return null;
+
+  const state = await getSubscriptionStateForUser(userId);
+  const subscribed = state && state.status !== "none";
+
+  return (
+    <div className="mt-10 p-8 rounded-lg border border-[#EDEDED] bg-white">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-[0.9375rem] font-semibold">Billing</h2>
+        <div className="flex gap-2">
+          {state ? (
+            <form action="/api/billing/portal" method="POST">
+              <button className="text-xs font-medium rounded-md border border-[#EEEEF0] px-3 py-1.5 hover:border-black">
+                Manage billing
+              </button>
+            </form>
+          ) : null}
+          {!subscribed ? (
+            <form action="/api/billing/checkout" method="POST">
+              <button className="text-xs font-medium rounded-md bg-black text-white border border-black px-3 py-1.5 hover:bg-white hover:text-black">
+                Subscribe
+              </button>
+            </form>
+          ) : null}
+        </div>
+      </div>
+
+      {state && state.status !== "none" ? (
+        <div className="px-2.5 bg-[#FAFAFB] rounded-lg divide-y divide-[#EEEEF0]">
+          <Row desc="Plan" value={state.planName || state.priceId} />
+          <Row desc="Status" value={state.cancelAtPeriodEnd ? `${state.status} (cancels at period end)` : state.status} />
+          <Row
+            desc="Price"
+            value={`${formatAmount(state.unitAmount, state.currency)}${state.interval ? ` / ${state.interval}` : ""}`}
+          />
+          <Row
+            desc={state.cancelAtPeriodEnd ? "Ends on" : "Renews on"}
+            value={formatDate(state.currentPeriodEnd)}
+          />
+          {state.paymentMethod ? (
+            <Row
+              desc="Payment method"
+              value={[state.paymentMethod.brand || state.paymentMethod.type, state.paymentMethod.last4 && `•••• ${state.paymentMethod.last4}`]
+                .filter(Boolean)
+                .join(" ")}
+            />
+          ) : null}
+        </div>
+      ) : (
+        <p className="text-xs text-[#7D7D7E]">You don&apos;t have an active plan.</p>
+      )}
+
+      {state && state.recentInvoices.length > 0 ? (
+        <>
+          <h3 className="mt-6 mb-2 text-xs font-semibold">Recent invoices</h3>
+          <div className="px-2.5 bg-[#FAFAFB] rounded-lg divide-y divide-[#EEEEF0]">
+            {state.recentInvoices.map((invoice) => (
+              <div key={invoice.id} className="h-[2.125rem] grid grid-cols-4 items-center text-xs">
+                <span className="font-mono">{invoice.number || invoice.id}</span>
+                <span className="text-[#7D7D7E]">{formatDate(invoice.created)}</span>
+                <span className="text-[#7D7D7E]">{formatAmount(invoice.total, invoice.currency)}</span>
+                <span className="text-right">
+                  {invoice.hostedInvoiceUrl ? (
+                    <a href={invoice.hostedInvoiceUrl} target="_blank" className="underline">
+                      {invoice.status}
+                    </a>
+                  ) : (
+                    invoice.status
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
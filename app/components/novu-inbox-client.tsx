@@ -0,0 +1,25 @@
+'use client';
+
+import { Inbox } from '@novu/react';
+import { useRouter } from 'next/navigation';
+
+export function NovuInboxClient({
+    applicationIdentifier,
+    subscriberId,
+    subscriberHash,
+}: {
+    applicationIdentifier: string;
+    subscriberId: string;
+    subscriberHash?: string;
+}) {
+    const router = useRouter();
+
+    return (
+        <Inbox
+            applicationIdentifier={applicationIdentifier}
+            subscriberId={subscriberId}
+            subscriberHash={subscriberHash}
+            routerPush={(path: string) => router.push(path)}
+        />
+    );
+}
@@ -1,16 +1,25 @@
-'use client';
+import { auth } from '@clerk/nextjs/server';
+import { NovuInboxClient } from './novu-inbox-client';
+import { computeSubscriberHash } from '../utils/subscriber';
+import { novuInboxConfig } from '../utils/config';
 
-import { Inbox } from '@novu/react';
-import { useRouter } from 'next/navigation';
+/**
+ * Renders the Novu Inbox for the signed-in Clerk user, whose ID is their subscriber ID.
+ * The subscriber hash is computed on the server so Inbox HMAC verification can be enabled in Novu.
+ */
+export async function NovuInbox() {
+    const { userId } = await auth();
+    const { applicationIdentifier } = novuInboxConfig();
 
-export function NovuInbox() {
-    const router = useRouter();
+    if (!userId || !applicationIdentifier) {
+        return null;
+    }
 
     return (
-        <Inbox
-            applicationIdentifier="_EYlz4GL3-nL"
-            subscriberId="subscriberId"
-            routerPush={(path: string) => router.push(path)}
+        <NovuInboxClient
+            applicationIdentifier={applicationIdentifier}
+            subscriberId={userId}
+            subscriberHash={computeSubscriberHash(userId)}
         />
     );
-}
\ No newline at end of file
+}
@@ -0,0 +1,58 @@
+"use server";
+
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import { revalidatePath } from "next/cache";
+import { updateWorkflowPreferences } from "../../api/notifications/route";
+import { logger } from "../../utils/logger";
+import {
+  NOTIFICATION_CHANNELS,
+  PRIVATE_METADATA_KEY,
+  notificationCategories,
+  parsePreferences,
+  saveStoredPreferences,
+  type NotificationCategory,
+} from "../../utils/notification-preferences";
+
+/**
+ * Saves the signed-in user's preferences from the form, where each checkbox is
+ * named `<category>.<channel>`. Clerk and the KV store are updated first so the
+ * webhook pipeline honours the change even if some Novu updates fail.
+ */
+export async function savePreferences(formData: FormData) {
+  const { userId } = await auth();
+  if (!userId) {
+    throw new Error("Not signed in");
+  }
+
+  const submitted: Record<string, Record<string, boolean>> = {};
+  for (const category of Object.keys(notificationCategories)) {
+    submitted[category] = {};
+    for (const channel of NOTIFICATION_CHANNELS) {
+      submitted[category][channel] = formData.get(`${category}.${channel}`) === "on";
+    }
+  }
+  const preferences = parsePreferences(submitted);
+
+  const client = await clerkClient();
+  await client.users.updateUserMetadata(userId, {
+    privateMetadata: { [PRIVATE_METADATA_KEY]: preferences },
+  });
+  await saveStoredPreferences(userId, preferences);
+
+  // Locked categories are always on, so Novu only needs the unlocked ones
+  const updates = (Object.keys(notificationCategories) as NotificationCategory[])
+    .filter((category) => !notificationCategories[category].locked)
+    .flatMap((category) =>
+      notificationCategories[category].workflows.map((workflowId) => ({ workflowId, channels: preferences[category] }))
+    );
+  const results = await Promise.allSettled(
+    updates.map(({ workflowId, channels }) => updateWorkflowPreferences(userId, workflowId, channels))
+  );
+  results.forEach((result, index) => {
+    if (result.status === "rejected") {
+      logger.error("Could not update Novu preferences", { workflowId: updates[index].workflowId, error: result.reason });
+    }
+  });
+
+  revalidatePath("/dashboard/notifications");
+}
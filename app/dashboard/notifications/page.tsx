@@ -0,0 +1,104 @@
+import Link from "next/link";
+import { currentUser } from "@clerk/nextjs/server";
+import { UserButton } from "@clerk/nextjs";
+import { ClerkLogo } from "../../components/clerk-logo";
+import { NovuLogo } from "../../components/novu-logo";
+import { Footer } from "../../components/footer";
+import {
+  NOTIFICATION_CHANNELS,
+  PRIVATE_METADATA_KEY,
+  notificationCategories,
+  parsePreferences,
+  type NotificationCategory,
+  type NotificationChannel,
+} from "../../utils/notification-preferences";
+import { savePreferences } from "./actions";
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: "Email",
+  sms: "SMS",
+  in_app: "In-app",
+};
+
+export default async function NotificationPreferencesPage() {
+  const user = await currentUser();
+  if (!user) return null;
+
+  const preferences = parsePreferences(user.privateMetadata?.[PRIVATE_METADATA_KEY]);
+  const categories = Object.keys(notificationCategories) as NotificationCategory[];
+
+  return (
+    <>
+      <main className="max-w-[75rem] w-full mx-auto pb-10">
+        <header className="flex items-center justify-between w-full h-16 gap-4">
+          <div className="flex gap-4">
+            <ClerkLogo />
+            <div aria-hidden className="w-px h-6 bg-[#C7C7C8]" />
+            <NovuLogo />
+          </div>
+          <div className="flex items-center gap-4 text-[0.8125rem] font-medium">
+            <Link href="/dashboard">Dashboard</Link>
+            <UserButton
+              appearance={{
+                elements: {
+                  userButtonAvatarBox: "size-6",
+                },
+              }}
+            />
+          </div>
+        </header>
+
+        <h1 className="text-[1.0625rem] font-semibold mb-1">Notification preferences</h1>
+        <p className="text-xs text-[#7D7D7E] mb-6">Choose how we reach you for each kind of notification.</p>
+
+        <form action={savePreferences} className="max-w-[40rem] p-8 rounded-lg border border-[#EDEDED] bg-white">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-[#5E5F6E]">
+                <th className="pb-2 font-medium">Category</th>
+                {NOTIFICATION_CHANNELS.map((channel) => (
+                  <th key={channel} className="pb-2 font-medium text-center">
+                    {CHANNEL_LABELS[channel]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {categories.map((category) => {
+                const { label, description, locked } = notificationCategories[category];
+                return (
+                  <tr key={category} className="border-t border-[#EEEEF0] align-top">
+                    <td className="py-3 pr-4">
+                      <span className="block font-semibold">{label}</span>
+                      <span className="block text-[#7D7D7E]">
+                        {description}
+                        {locked ? " — always on to keep your account secure" : ""}
+                      </span>
+                    </td>
+                    {NOTIFICATION_CHANNELS.map((channel) => (
+                      <td key={channel} className="py-3 text-center">
+                        <input
+                          type="checkbox"
+                          name={`${category}.${channel}`}
+                          aria-label={`${label} ${CHANNEL_LABELS[channel]}`}
+                          defaultChecked={preferences[category][channel]}
+                          disabled={locked}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <div className="mt-6 flex justify-end">
+            <button className="text-xs font-medium rounded-md bg-black text-white border border-black px-3 py-1.5 hover:bg-white hover:text-black">
+              Save preferences
+            </button>
+          </div>
+        </form>
+      </main>
+      <Footer />
+    </>
+  );
+}
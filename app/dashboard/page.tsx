@@ -1,3 +1,4 @@
+import Link from "next/link";
 import { UserDetails } from "../components/user-details";
 import { OrganizationSwitcher, UserButton } from "@clerk/nextjs";
 import { CodeSwitcher } from "../components/code-switcher";
@@ -6,6 +7,7 @@ import { Footer } from "../components/footer";
 import { ClerkLogo } from "../components/clerk-logo";
 import { NextLogo } from "../components/next-logo";
 import { NovuInbox } from "../components/novu-inbox";
+import { BillingPanel } from "../components/billing-panel";
 
 import { DASHBOARD_CARDS } from "../consts/cards";
 import { NovuLogo } from "../components/novu-logo";
@@ -26,6 +28,9 @@ export default async function DashboardPage() {
 
               </div>
               <div className="flex items-center gap-2">
+                <Link href="/dashboard/notifications" className="text-[0.8125rem] font-medium px-2">
+                  Notification settings
+                </Link>
                 <OrganizationSwitcher
                   appearance={{
                     elements: {
@@ -46,6 +51,7 @@ export default async function DashboardPage() {
 
             </header>
             <UserDetails />
+            <BillingPanel />
           </div>
           <div className="pt-[3.5rem]">
             <CodeSwitcher />
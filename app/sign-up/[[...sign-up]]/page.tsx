@@ -1,9 +1,13 @@
 import { SignUp } from "@clerk/nextjs";
+import { headers } from "next/headers";
+
+export default async function Page() {
+  // Captured so the webhook can pick a notification locale for the new user
+  const acceptLanguage = (await headers()).get("accept-language") || "";
 
-export default function Page() {
   return (
     <div className="flex justify-center py-24">
-      <SignUp />
+      <SignUp unsafeMetadata={{ acceptLanguage }} />
     </div>
   );
 }
@@ -0,0 +1,219 @@
+/**
+ * Payload builders for Clerk `email.created` events, keyed by email slug
+ *
+ * Each builder maps the email's template data (`event.data.data`) to the
+ * payload of the matching Novu workflow, whose ID is the slug with dashes
+ * (e.g. `verification_code` -> `verification-code`). The payload shapes are
+ * part of the contract with the Novu templates, so fields are only ever added.
+ * Slugs without a builder fall back to `genericEmailPayload`.
+ */
+
+import { organizationFromEmailData, type OrganizationPayload } from './organization-context';
+
+/** Template data Clerk sends with an email, shape depends on the slug, so fields are narrowed as they are read */
+export type ClerkEmailData = Record<string, unknown>;
+
+export interface AppInfo {
+  name: string;
+}
+
+/**
+ * Where and when the action behind the email was requested
+ */
+export interface RequestContext {
+  /** Browser and OS, e.g. "Chrome, Mac OS X" */
+  requested_by: string;
+  /** Location, e.g. "Athens, GR" */
+  requested_from: string;
+  requested_at: string;
+  /** Same as `requested_by`, kept for existing templates */
+  device: string;
+}
+
+export interface BaseEmailPayload extends RequestContext {
+  subject: string;
+  app: AppInfo;
+}
+
+export interface VerificationCodePayload extends BaseEmailPayload {
+  otp_code: string;
+}
+
+export interface PasswordChangedPayload extends BaseEmailPayload {
+  greeting_name: string;
+  primary_email_address: string;
+}
+
+export interface MagicLinkPayload extends BaseEmailPayload {
+  magic_link: string;
+  ttl_minutes: string;
+}
+
+/** Uses a flat `app_name` instead of `app.name`, as its templates always have */
+export interface ResetPasswordCodePayload extends RequestContext {
+  subject: string;
+  otp_code: string;
+  app_name: string;
+}
+
+export interface OrganizationInvitationPayload extends BaseEmailPayload {
+  inviter_name: string;
+  org_name: string;
+  action_url: string;
+  /** The invitee isn't a member yet, so the organization comes from the template data */
+  organization: Omit<OrganizationPayload, 'id'>;
+}
+
+export interface NewSignInPayload extends BaseEmailPayload {
+  greeting_name: string;
+  sign_in_method: string;
+  revoke_session_url: string;
+  support_email: string;
+}
+
+export interface PasskeyAddedPayload extends BaseEmailPayload {
+  greeting_name: string;
+  passkey_name: string;
+  primary_email_address: string;
+}
+
+export interface PrimaryEmailAddressChangedPayload extends BaseEmailPayload {
+  greeting_name: string;
+  new_email_address: string;
+  primary_email_address: string;
+}
+
+export interface ActionUrlPayload extends BaseEmailPayload {
+  action_url: string;
+}
+
+/** Every template field is forwarded as-is on top of the base fields */
+export type GenericEmailPayload = BaseEmailPayload & ClerkEmailData;
+
+export type EmailPayloadBuilder<P> = (emailData: ClerkEmailData) => P;
+
+/**
+ * Reads a template field as text, treating missing or non-text values as empty
+ */
+function text(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+/**
+ * Reads a nested template object such as `app`, treating anything else as empty
+ */
+function fields(value: unknown): ClerkEmailData {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as ClerkEmailData) : {};
+}
+
+function requestContext(emailData: ClerkEmailData): RequestContext {
+  return {
+    requested_by: text(emailData.requested_by),
+    requested_from: text(emailData.requested_from),
+    requested_at: text(emailData.requested_at),
+    device: text(emailData.requested_by),
+  };
+}
+
+function basePayload(emailData: ClerkEmailData): BaseEmailPayload {
+  return {
+    subject: text(emailData.subject),
+    app: { name: text(fields(emailData.app).name) },
+    ...requestContext(emailData),
+  };
+}
+
+const verificationCode: EmailPayloadBuilder<VerificationCodePayload> = (emailData) => ({
+  ...basePayload(emailData),
+  otp_code: text(emailData.otp_code),
+});
+
+const magicLink: EmailPayloadBuilder<MagicLinkPayload> = (emailData) => ({
+  ...basePayload(emailData),
+  magic_link: text(emailData.magic_link),
+  ttl_minutes: text(emailData.ttl_minutes),
+});
+
+const actionUrl: EmailPayloadBuilder<ActionUrlPayload> = (emailData) => ({
+  ...basePayload(emailData),
+  action_url: text(emailData.action_url),
+});
+
+const accountNotice: EmailPayloadBuilder<PasswordChangedPayload> = (emailData) => ({
+  ...basePayload(emailData),
+  greeting_name: text(emailData.greeting_name),
+  primary_email_address: text(emailData.primary_email_address),
+});
+
+/**
+ * Falls back to forwarding every template field for slugs without a dedicated builder
+ */
+export const genericEmailPayload: EmailPayloadBuilder<GenericEmailPayload> = (emailData) => ({
+  ...emailData,
+  ...basePayload(emailData),
+});
+
+export const emailPayloadBuilders = {
+  verification_code: verificationCode,
+  affiliation_code: verificationCode,
+  password_changed: accountNotice,
+  password_removed: accountNotice,
+  magic_link_sign_in: magicLink,
+  magic_link_sign_up: magicLink,
+  magic_link_verify_email: magicLink,
+  reset_password_code: (emailData): ResetPasswordCodePayload => ({
+    subject: text(emailData.subject),
+    otp_code: text(emailData.otp_code),
+    app_name: text(fields(emailData.app).name),
+    ...requestContext(emailData),
+  }),
+  organization_invitation: (emailData): OrganizationInvitationPayload => {
+    const organization = organizationFromEmailData(emailData);
+    return {
+      ...basePayload(emailData),
+      inviter_name: text(emailData.inviter_name),
+      org_name: organization.name,
+      action_url: text(emailData.action_url),
+      organization,
+    };
+  },
+  // Invitations have always forwarded an OTP field, even though Clerk sends an action URL
+  invitation: (emailData): VerificationCodePayload & ActionUrlPayload => ({
+    ...verificationCode(emailData),
+    action_url: text(emailData.action_url),
+  }),
+  new_sign_in: (emailData): NewSignInPayload => ({
+    ...basePayload(emailData),
+    greeting_name: text(emailData.greeting_name),
+    sign_in_method: text(emailData.sign_in_method),
+    revoke_session_url: text(emailData.revoke_session_url),
+    support_email: text(emailData.support_email),
+  }),
+  passkey_added: (emailData): PasskeyAddedPayload => ({
+    ...basePayload(emailData),
+    greeting_name: text(emailData.greeting_name),
+    passkey_name: text(emailData.passkey_name),
+    primary_email_address: text(emailData.primary_email_address),
+  }),
+  primary_email_address_changed: (emailData): PrimaryEmailAddressChangedPayload => ({
+    ...basePayload(emailData),
+    greeting_name: text(emailData.greeting_name),
+    new_email_address: text(emailData.new_email_address),
+    primary_email_address: text(emailData.primary_email_address),
+  }),
+  waitlist_confirmation: actionUrl,
+  waitlist_invitation: actionUrl,
+} satisfies Record<string, EmailPayloadBuilder<object>>;
+
+export type KnownEmailSlug = keyof typeof emailPayloadBuilders;
+
+export function isKnownEmailSlug(slug: string | null | undefined): slug is KnownEmailSlug {
+  return !!slug && Object.prototype.hasOwnProperty.call(emailPayloadBuilders, slug);
+}
+
+/**
+ * Returns the builder for an email slug, or the generic builder for unknown slugs
+ */
+export function getEmailPayloadBuilder(slug: string | null | undefined): EmailPayloadBuilder<object> {
+  return isKnownEmailSlug(slug) ? emailPayloadBuilders[slug] : genericEmailPayload;
+}
@@ -0,0 +1,170 @@
+/**
+ * Routing registry for Clerk webhook events
+ *
+ * Each Clerk event type maps to the Novu workflows it triggers, along with
+ * builders for the subscriber and payload. Supporting a new event means adding
+ * an entry to `clerkEventRoutes` rather than editing the webhook handler.
+ */
+
+import type { WebhookEvent } from '@clerk/nextjs/server';
+import { getEmailPayloadBuilder } from './clerk-email-payloads';
+import { rememberDevice } from './known-devices';
+import { logger } from './logger';
+import { organizationIdFromClerkEvent } from './organization-context';
+import { analyzeSms, validateSms } from './sms';
+import { buildUserSubscriber, type Subscriber } from './subscriber';
+
+export type ClerkEventType = WebhookEvent['type'];
+
+/**
+ * Narrows the Clerk webhook event union to a single event type
+ */
+export type ClerkEventOf<T extends ClerkEventType> = WebhookEvent extends infer E
+  ? E extends { type: infer U }
+    ? T extends U
+      ? E & { type: T }
+      : never
+    : never
+  : never;
+
+/**
+ * Describes how a Clerk event type is turned into Novu workflow triggers
+ */
+export interface ClerkEventRoute<T extends ClerkEventType> {
+  /** Workflow IDs to trigger, or a function when they depend on the event data */
+  workflows: string[] | ((event: ClerkEventOf<T>) => string[]);
+  subscriber: (event: ClerkEventOf<T>) => Subscriber;
+  payload: (event: ClerkEventOf<T>) => Record<string, unknown>;
+  /** Return false to skip the event without triggering anything */
+  filter?: (event: ClerkEventOf<T>) => boolean | Promise<boolean>;
+}
+
+export type ClerkEventRoutes = {
+  [T in ClerkEventType]?: ClerkEventRoute<T>;
+};
+
+/**
+ * A single workflow trigger resolved from a Clerk event
+ */
+export interface ResolvedTrigger {
+  workflowId: string;
+  subscriber: Subscriber;
+  payload: Record<string, unknown>;
+  /** The Clerk organization the trigger is scoped to, if any */
+  organizationId?: string;
+}
+
+export type RouteResolution =
+  | { status: 'routed'; triggers: ResolvedTrigger[] }
+  | { status: 'filtered' }
+  | { status: 'unrouted'; eventType: string };
+
+/**
+ * Converts a Clerk email or SMS slug to its Novu workflow ID
+ * e.g. `verification_code` -> `verification-code`
+ */
+export function slugToWorkflowId(slug: string | null | undefined): string {
+  return slug?.replace(/_/g, '-') || '';
+}
+
+export const clerkEventRoutes: ClerkEventRoutes = {
+  'user.created': {
+    workflows: ['user-created'],
+    subscriber: (event) => buildUserSubscriber(event.data),
+    payload: (event) => ({ ...event.data }),
+  },
+  'email.created': {
+    workflows: (event) => [slugToWorkflowId(event.data.slug)],
+    subscriber: (event) => ({
+      subscriberId: event.data.user_id || `clerk_${event.data.to_email_address || ''}`,
+      email: event.data.to_email_address || '',
+    }),
+    payload: (event) => ({ ...getEmailPayloadBuilder(event.data.slug)(event.data.data || {}) }),
+    // Emails without a slug cannot be mapped to a workflow
+    filter: (event) => Boolean(event.data.slug),
+  },
+  'sms.created': {
+    // SMS workflows get an `-sms` suffix so they don't collide with the email workflow for the same slug
+    workflows: (event) => [`${slugToWorkflowId(event.data.slug)}-sms`],
+    subscriber: (event) => ({
+      subscriberId: event.data.user_id || `clerk_${event.data.to_phone_number}`,
+      phone: event.data.to_phone_number,
+    }),
+    payload: (event) => {
+      const { encoding, segments } = analyzeSms(event.data.message);
+      return {
+        message: event.data.message,
+        otp_code: event.data.data?.otp_code || '',
+        app: { name: event.data.data?.app?.name || '' },
+        encoding,
+        segments,
+      };
+    },
+    filter: (event) => {
+      if (!event.data.slug) {
+        return false;
+      }
+      const problems = validateSms(event.data.message);
+      if (problems.length > 0) {
+        logger.warn('Skipping sms.created that cannot be sent', { smsId: event.data.id, problems });
+        return false;
+      }
+      return true;
+    },
+  },
+  'session.created': {
+    workflows: ['new-sign-in'],
+    subscriber: (event) => ({ subscriberId: event.data.user_id }),
+    payload: (event) => {
+      const activity = event.data.latest_activity;
+      const browser = [activity?.browser_name, activity?.browser_version].filter(Boolean).join(' ');
+      const location = [activity?.city, activity?.country].filter(Boolean).join(', ');
+      return {
+        session_id: event.data.id,
+        browser,
+        device_type: activity?.device_type || '',
+        is_mobile: activity?.is_mobile ?? false,
+        ip_address: activity?.ip_address || '',
+        city: activity?.city || '',
+        country: activity?.country || '',
+        // Same fields the Clerk email payloads forward, so templates can share them
+        requested_by: browser,
+        requested_from: location,
+        requested_at: new Date(event.data.created_at).toUTCString(),
+      };
+    },
+    // Only alert on devices and clients the user hasn't signed in from before
+    filter: (event) => rememberDevice(event.data),
+  },
+};
+
+/**
+ * Resolves the workflow triggers for a Clerk event using the routing registry
+ * @param event The verified Clerk webhook event
+ * @param routes The registry to resolve against, defaults to `clerkEventRoutes`
+ * @returns The triggers to send, or why none were produced
+ */
+export async function resolveClerkEvent(
+  event: WebhookEvent,
+  routes: ClerkEventRoutes = clerkEventRoutes
+): Promise<RouteResolution> {
+  // The registry is keyed by event type, so the entry always matches the event's data shape
+  const route = routes[event.type] as ClerkEventRoute<ClerkEventType> | undefined;
+  if (!route) {
+    return { status: 'unrouted', eventType: event.type };
+  }
+
+  if (route.filter && !(await route.filter(event))) {
+    return { status: 'filtered' };
+  }
+
+  const workflowIds = typeof route.workflows === 'function' ? route.workflows(event) : route.workflows;
+  const subscriber = route.subscriber(event);
+  const payload = route.payload(event);
+  const organizationId = organizationIdFromClerkEvent(event);
+
+  return {
+    status: 'routed',
+    triggers: workflowIds.map((workflowId) => ({ workflowId, subscriber, payload, organizationId })),
+  };
+}
@@ -0,0 +1,449 @@
+/**
+ * Typed, validated configuration read from the environment
+ *
+ * Routes read their settings through the helpers below rather than from
+ * `process.env`, so a missing or invalid variable fails with a `ConfigError`
+ * that names it instead of surfacing later as a failed webhook. `validateConfig`
+ * collects every problem at once for the startup check in `instrumentation.ts`
+ * and for `/api/health`. Settings are read on each call, so the helpers always
+ * reflect the current environment.
+ */
+
+import type { WebhookSource } from './idempotency';
+import type { LogLevel } from './logger';
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Thrown when a variable is missing or has an invalid value
+ */
+export class ConfigError extends Error {
+  constructor(readonly variable: string, message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+export interface ClerkWebhookConfig {
+  /** Accepted signing secrets, newest first, so a secret can be rotated without downtime */
+  signingSecrets: string[];
+  /** How far a delivery's signed timestamp may be from now, in seconds */
+  toleranceSeconds: number;
+}
+
+export interface StripeWebhookConfig {
+  /** Accepted signing secrets, newest first, so a secret can be rotated without downtime */
+  webhookSecrets: string[];
+  /** How far a delivery's signed timestamp may be from now, in seconds */
+  toleranceSeconds: number;
+}
+
+export interface StripeApiConfig {
+  secretKey: string;
+  /** Price used by the dashboard's Subscribe button */
+  priceId?: string;
+  /** Set to send API calls to stripe-mock */
+  host?: string;
+  port?: string;
+  protocol?: 'http';
+}
+
+export type NotificationTransportConfig =
+  | { kind: 'novu'; secretKey: string; apiUrl?: string }
+  | { kind: 'console'; filePath?: string }
+  | { kind: 'memory' };
+
+export type KeyValueStoreConfig =
+  | { kind: 'memory' }
+  | { kind: 'file'; dir: string }
+  | { kind: 'redis'; url: string; token: string };
+
+export interface ApiTokens {
+  /** Bearer token for the retry and dead-letter endpoints */
+  notifications?: string;
+  /** Bearer token for /api/metrics */
+  metrics?: string;
+}
+
+export interface NovuInboxConfig {
+  /** Unset to hide the Inbox */
+  applicationIdentifier?: string;
+  /** Signs subscriber IDs when Inbox HMAC verification is enabled in Novu */
+  secretKey?: string;
+}
+
+export interface LocaleConfig {
+  /** Locales with Novu translations, in canonical BCP 47 form */
+  supportedLocales: string[];
+  /** One of the supported locales */
+  defaultLocale: string;
+}
+
+/**
+ * How a deleted Clerk user is handled in Novu:
+ * - `remove` deletes the subscriber
+ * - `anonymize` keeps the subscriber ID but clears its personal fields
+ */
+export type DeletedSubscriberMode = 'remove' | 'anonymize';
+
+/**
+ * Tuning of the webhook pipeline, none of it secret
+ */
+export interface PipelineSettings {
+  triggerMaxAttempts: number;
+  idempotencyTtlSeconds: number;
+  eventLogTtlSeconds: number;
+  smsMaxSegments: number;
+  supportedLocales: string[];
+  defaultLocale: string;
+  deletedSubscriberMode: DeletedSubscriberMode;
+  logLevel: LogLevel;
+}
+
+export interface ConfigProblem {
+  variable: string;
+  message: string;
+}
+
+/**
+ * What is configured, without any secret values
+ */
+export interface ConfigReport {
+  sources: Record<WebhookSource, { configured: boolean; missing: string[] }>;
+  transports: {
+    notifications: { kind: string; configured: boolean };
+    kvStore: { kind: string; configured: boolean };
+  };
+  features: {
+    inbox: { configured: boolean };
+    admin: { configured: boolean };
+  };
+  /** The settings in effect; invalid ones are left out and reported as problems */
+  settings: Partial<PipelineSettings>;
+  problems: ConfigProblem[];
+}
+
+function optional(env: Env, name: string): string | undefined {
+  return env[name]?.trim() || undefined;
+}
+
+function required(env: Env, name: string, hint: string): string {
+  const value = optional(env, name);
+  if (!value) {
+    throw new ConfigError(name, `Missing ${name}: ${hint}`);
+  }
+  return value;
+}
+
+/**
+ * Reads a comma-separated list, e.g. `whsec_new,whsec_old`, keeping its order
+ */
+function list(env: Env, name: string): string[] {
+  return (optional(env, name) ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function requiredList(env: Env, name: string, hint: string): string[] {
+  const items = list(env, name);
+  if (items.length === 0) {
+    throw new ConfigError(name, `Missing ${name}: ${hint}`);
+  }
+  return items;
+}
+
+function positiveInteger(env: Env, name: string, fallback: number): number {
+  const value = optional(env, name);
+  if (value === undefined) {
+    return fallback;
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number) || number <= 0) {
+    throw new ConfigError(name, `Invalid ${name} "${value}", expected a positive whole number`);
+  }
+  return number;
+}
+
+// Matches the window Svix and Stripe use by default
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+function toleranceSeconds(env: Env): number {
+  return positiveInteger(env, 'WEBHOOK_TOLERANCE_SECONDS', DEFAULT_TOLERANCE_SECONDS);
+}
+
+function oneOf<T extends string>(env: Env, name: string, allowed: readonly T[], fallback: T): T {
+  const value = optional(env, name) ?? fallback;
+  if (!allowed.includes(value as T)) {
+    throw new ConfigError(name, `Invalid ${name} "${value}", expected one of ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+/**
+ * Reads a BCP 47 locale in its canonical form, e.g. `en_us` -> `en-US`
+ */
+function canonicalLocale(name: string, value: string): string {
+  try {
+    const [locale] = Intl.getCanonicalLocales(value.replace(/_/g, '-'));
+    if (locale) {
+      return locale;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new ConfigError(name, `Invalid ${name} "${value}", expected a BCP 47 locale such as en-US`);
+}
+
+/**
+ * Settings for verifying Clerk webhooks
+ * @throws ConfigError when SIGNING_SECRET is missing or WEBHOOK_TOLERANCE_SECONDS is invalid
+ */
+export function clerkWebhookConfig(env: Env = process.env): ClerkWebhookConfig {
+  // CLERK_SIGNING_SECRET is the name the legacy handler used, still accepted so existing deployments keep working
+  const variable = optional(env, 'SIGNING_SECRET') ? 'SIGNING_SECRET' : 'CLERK_SIGNING_SECRET';
+  const signingSecrets = list(env, variable);
+  if (signingSecrets.length === 0) {
+    throw new ConfigError(
+      'SIGNING_SECRET',
+      'Missing SIGNING_SECRET: add the signing secret of the webhook endpoint in the Clerk Dashboard to .env.local'
+    );
+  }
+  return { signingSecrets, toleranceSeconds: toleranceSeconds(env) };
+}
+
+/**
+ * Settings for verifying Stripe webhooks
+ * @throws ConfigError when STRIPE_WEBHOOK_SECRET is missing or WEBHOOK_TOLERANCE_SECONDS is invalid
+ */
+export function stripeWebhookConfig(env: Env = process.env): StripeWebhookConfig {
+  return {
+    webhookSecrets: requiredList(
+      env,
+      'STRIPE_WEBHOOK_SECRET',
+      'add the signing secret of the webhook endpoint in the Stripe Dashboard to .env.local'
+    ),
+    toleranceSeconds: toleranceSeconds(env),
+  };
+}
+
+/**
+ * Settings for the Stripe API client
+ * @throws ConfigError when STRIPE_SECRET_KEY is missing
+ */
+export function stripeApiConfig(env: Env = process.env): StripeApiConfig {
+  return {
+    secretKey: required(env, 'STRIPE_SECRET_KEY', 'add the secret key from the Stripe Dashboard to .env.local'),
+    priceId: optional(env, 'STRIPE_PRICE_ID'),
+    host: optional(env, 'STRIPE_API_HOST'),
+    port: optional(env, 'STRIPE_API_PORT'),
+    protocol: optional(env, 'STRIPE_API_PROTOCOL') === 'http' ? 'http' : undefined,
+  };
+}
+
+/**
+ * Whether the Stripe API can be called, so billing features can be hidden instead of failing
+ */
+export function isStripeConfigured(env: Env = process.env): boolean {
+  return optional(env, 'STRIPE_SECRET_KEY') !== undefined;
+}
+
+/**
+ * Where notifications are sent, from NOTIFICATION_TRANSPORT
+ * @throws ConfigError when the transport is unknown or the Novu secret key is missing
+ */
+export function notificationTransportConfig(env: Env = process.env): NotificationTransportConfig {
+  const kind = oneOf(env, 'NOTIFICATION_TRANSPORT', ['novu', 'console', 'memory'] as const, 'novu');
+
+  switch (kind) {
+    case 'novu':
+      return {
+        kind,
+        secretKey: required(env, 'NOVU_SECRET_KEY', 'add the secret key from the Novu dashboard to .env.local'),
+        apiUrl: optional(env, 'NOVU_API_URL'),
+      };
+    case 'console':
+      return { kind, filePath: optional(env, 'NOTIFICATION_TRANSPORT_FILE') };
+    case 'memory':
+      return { kind };
+  }
+}
+
+/**
+ * Where webhook state is kept, from KV_STORE
+ * @throws ConfigError when the backend is unknown or the Redis endpoint is missing
+ */
+export function keyValueStoreConfig(env: Env = process.env): KeyValueStoreConfig {
+  const kind = oneOf(env, 'KV_STORE', ['memory', 'file', 'redis'] as const, 'memory');
+
+  switch (kind) {
+    case 'memory':
+      return { kind };
+    case 'file':
+      return { kind, dir: optional(env, 'KV_FILE_DIR') ?? '.data' };
+    case 'redis':
+      return {
+        kind,
+        url: required(env, 'KV_REST_API_URL', 'add the REST endpoint of your Redis database to use the redis KV_STORE'),
+        token: required(env, 'KV_REST_API_TOKEN', 'add the REST token of your Redis database to use the redis KV_STORE'),
+      };
+  }
+}
+
+/**
+ * Bearer tokens for the internal endpoints; an endpoint whose token is unset refuses every request
+ */
+export function apiTokens(env: Env = process.env): ApiTokens {
+  return {
+    notifications: optional(env, 'NOTIFICATIONS_API_TOKEN'),
+    metrics: optional(env, 'METRICS_API_TOKEN'),
+  };
+}
+
+/**
+ * Settings for the Novu Inbox on the dashboard
+ */
+export function novuInboxConfig(env: Env = process.env): NovuInboxConfig {
+  return {
+    applicationIdentifier: optional(env, 'NEXT_PUBLIC_NOVU_APPLICATION_IDENTIFIER'),
+    secretKey: optional(env, 'NOVU_SECRET_KEY'),
+  };
+}
+
+/**
+ * Clerk user IDs allowed on /admin; nobody is an admin when the list is empty
+ * @throws ConfigError when an entry isn't a Clerk user ID
+ */
+export function adminUserIds(env: Env = process.env): string[] {
+  const ids = list(env, 'ADMIN_USER_IDS');
+  const invalid = ids.find((id) => !id.startsWith('user_'));
+  if (invalid) {
+    throw new ConfigError('ADMIN_USER_IDS', `Invalid ADMIN_USER_IDS entry "${invalid}", expected a Clerk user ID such as user_123`);
+  }
+  return ids;
+}
+
+/**
+ * How many times a failed trigger is attempted before it is dead-lettered
+ * @throws ConfigError when TRIGGER_MAX_ATTEMPTS is invalid
+ */
+export function triggerMaxAttempts(env: Env = process.env): number {
+  return positiveInteger(env, 'TRIGGER_MAX_ATTEMPTS', 5);
+}
+
+/**
+ * How long processed webhook IDs are remembered to drop redeliveries, a week by default
+ * @throws ConfigError when IDEMPOTENCY_TTL_SECONDS is invalid
+ */
+export function idempotencyTtlSeconds(env: Env = process.env): number {
+  // Both providers stop retrying after about three days
+  return positiveInteger(env, 'IDEMPOTENCY_TTL_SECONDS', 7 * 24 * 60 * 60);
+}
+
+/**
+ * How long received events are kept in the event log, two weeks by default
+ * @throws ConfigError when EVENT_LOG_TTL_SECONDS is invalid
+ */
+export function eventLogTtlSeconds(env: Env = process.env): number {
+  return positiveInteger(env, 'EVENT_LOG_TTL_SECONDS', 14 * 24 * 60 * 60);
+}
+
+/**
+ * Most segments an SMS may be split into
+ * @throws ConfigError when SMS_MAX_SEGMENTS is invalid
+ */
+export function smsMaxSegments(env: Env = process.env): number {
+  return positiveInteger(env, 'SMS_MAX_SEGMENTS', 3);
+}
+
+/**
+ * The locales subscribers can get, from SUPPORTED_LOCALES and DEFAULT_LOCALE
+ * @throws ConfigError when a locale is invalid or DEFAULT_LOCALE isn't supported
+ */
+export function localeConfig(env: Env = process.env): LocaleConfig {
+  const listed = list(env, 'SUPPORTED_LOCALES').map((locale) => canonicalLocale('SUPPORTED_LOCALES', locale));
+  const supportedLocales = listed.length > 0 ? listed : ['en-US'];
+
+  const value = optional(env, 'DEFAULT_LOCALE');
+  const defaultLocale = value ? canonicalLocale('DEFAULT_LOCALE', value) : supportedLocales[0];
+  if (!supportedLocales.includes(defaultLocale)) {
+    throw new ConfigError(
+      'DEFAULT_LOCALE',
+      `Invalid DEFAULT_LOCALE "${value}", expected one of SUPPORTED_LOCALES: ${supportedLocales.join(', ')}`
+    );
+  }
+  return { supportedLocales, defaultLocale };
+}
+
+/**
+ * What happens to the Novu subscriber of a deleted Clerk user
+ * @throws ConfigError when NOVU_DELETED_SUBSCRIBER_MODE is unknown
+ */
+export function deletedSubscriberMode(env: Env = process.env): DeletedSubscriberMode {
+  return oneOf(env, 'NOVU_DELETED_SUBSCRIBER_MODE', ['remove', 'anonymize'] as const, 'remove');
+}
+
+/**
+ * The lowest level the logger writes
+ * @throws ConfigError when LOG_LEVEL is unknown
+ */
+export function logLevel(env: Env = process.env): LogLevel {
+  return oneOf(env, 'LOG_LEVEL', ['debug', 'info', 'warn', 'error'] as const, 'info');
+}
+
+/**
+ * Runs every check and returns the variables each one is missing
+ */
+function missingVariables(...checks: Array<() => unknown>): ConfigProblem[] {
+  return checks.flatMap((check) => {
+    try {
+      check();
+      return [];
+    } catch (error) {
+      if (error instanceof ConfigError) {
+        return [{ variable: error.variable, message: error.message }];
+      }
+      throw error;
+    }
+  });
+}
+
+/**
+ * Checks the whole configuration, reporting what is configured without any secret values
+ */
+export function validateConfig(env: Env = process.env): ConfigReport {
+  const clerk = missingVariables(() => clerkWebhookConfig(env));
+  const stripe = missingVariables(() => stripeWebhookConfig(env), () => stripeApiConfig(env));
+  const notifications = missingVariables(() => notificationTransportConfig(env));
+  const kvStore = missingVariables(() => keyValueStoreConfig(env));
+  const admin = missingVariables(() => adminUserIds(env));
+
+  const settings: Partial<PipelineSettings> = {};
+  const invalidSettings = missingVariables(
+    () => (settings.triggerMaxAttempts = triggerMaxAttempts(env)),
+    () => (settings.idempotencyTtlSeconds = idempotencyTtlSeconds(env)),
+    () => (settings.eventLogTtlSeconds = eventLogTtlSeconds(env)),
+    () => (settings.smsMaxSegments = smsMaxSegments(env)),
+    () => Object.assign(settings, localeConfig(env)),
+    () => (settings.deletedSubscriberMode = deletedSubscriberMode(env)),
+    () => (settings.logLevel = logLevel(env))
+  );
+
+  return {
+    sources: {
+      clerk: { configured: clerk.length === 0, missing: clerk.map((problem) => problem.variable) },
+      stripe: { configured: stripe.length === 0, missing: stripe.map((problem) => problem.variable) },
+    },
+    transports: {
+      notifications: { kind: optional(env, 'NOTIFICATION_TRANSPORT') ?? 'novu', configured: notifications.length === 0 },
+      kvStore: { kind: optional(env, 'KV_STORE') ?? 'memory', configured: kvStore.length === 0 },
+    },
+    features: {
+      inbox: { configured: novuInboxConfig(env).applicationIdentifier !== undefined },
+      admin: { configured: admin.length === 0 && adminUserIds(env).length > 0 },
+    },
+    settings,
+    // A source that isn't set up only disables that source; anything else that is invalid is a problem
+    problems: [...notifications, ...kvStore, ...admin, ...invalidSettings],
+  };
+}
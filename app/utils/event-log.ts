@@ -0,0 +1,168 @@
+/**
+ * Log of received webhook events and what they triggered
+ *
+ * Every delivery to the Clerk and Stripe routes is recorded with its
+ * verification result, the workflows it resolved to and the trigger outcomes.
+ * Verified events also keep their body twice: a copy with OTPs, magic links,
+ * emails and phone numbers redacted as in the logs, which the admin page shows,
+ * and the raw body in a separate store, which is only read to replay the event.
+ * Both expire with the entry. Bodies that failed verification are never stored.
+ */
+
+import { randomUUID } from 'crypto';
+import { getKeyValueStore, type KeyValueStore } from './kv-store';
+import type { WebhookSource } from './idempotency';
+import { logger, redact } from './logger';
+import { eventLogTtlSeconds } from './config';
+
+export type EventStatus = 'processed' | 'unrouted' | 'filtered' | 'duplicate' | 'rejected' | 'failed';
+
+export type TriggerOutcome = 'triggered' | 'queued' | 'skipped' | 'failed';
+
+export interface LoggedTrigger {
+  workflowId: string;
+  subscriberId?: string;
+  outcome: TriggerOutcome;
+}
+
+export interface LoggedEvent {
+  id: string;
+  source: WebhookSource;
+  /** The `svix-id` header or Stripe event ID, when known */
+  eventId?: string;
+  /** Unknown when the event failed verification */
+  type?: string;
+  verified: boolean;
+  status: EventStatus;
+  triggers: LoggedTrigger[];
+  error?: string;
+  /** The verified event as JSON with sensitive fields redacted; unset when verification failed */
+  body?: string;
+  receivedAt: string;
+  durationMs: number;
+  /** Set on entries created by replaying another entry */
+  replayOf?: string;
+}
+
+/**
+ * An event to log; the raw body is kept apart from the entry
+ */
+export type NewLoggedEvent = Omit<LoggedEvent, 'id'> & { rawBody?: string };
+
+/**
+ * What the webhook pipeline did with a verified event
+ */
+export interface PipelineResult {
+  status: EventStatus;
+  triggers: LoggedTrigger[];
+}
+
+export interface EventLogFilter {
+  source?: WebhookSource;
+  type?: string;
+  status?: EventStatus;
+  /** ISO date, inclusive */
+  from?: string;
+  /** ISO date, inclusive */
+  to?: string;
+}
+
+function defaultStore(): KeyValueStore {
+  return getKeyValueStore('webhook-events');
+}
+
+// Kept out of the entries so listing the log never loads unredacted data
+function rawBodyStore(): KeyValueStore {
+  return getKeyValueStore('webhook-event-bodies');
+}
+
+/**
+ * Summarizes trigger responses from `triggerWorkflow` as log outcomes
+ */
+export function triggerOutcome(response: Response): TriggerOutcome {
+  if (response.status === 202) {
+    return 'queued';
+  }
+  // Turned off by the subscriber's notification preferences or the organization's config
+  if (response.status === 204) {
+    return 'skipped';
+  }
+  return response.ok ? 'triggered' : 'failed';
+}
+
+/**
+ * The bodies to log for a verified event: the raw body for replays and a redacted copy to display
+ * @param rawBody The body exactly as received
+ */
+export function loggedBody(event: object, rawBody: string): Pick<NewLoggedEvent, 'body' | 'rawBody'> {
+  return { body: JSON.stringify(redact(event)), rawBody };
+}
+
+/**
+ * Records a received webhook event
+ * @param entry The event details; the ID is generated
+ * @returns The stored entry, without the raw body
+ */
+export async function logEvent(
+  { rawBody, ...entry }: NewLoggedEvent,
+  store: KeyValueStore = defaultStore(),
+  bodies: KeyValueStore = rawBodyStore()
+): Promise<LoggedEvent> {
+  const logged: LoggedEvent = { ...entry, id: randomUUID() };
+  const ttlSeconds = eventLogTtlSeconds();
+  if (rawBody !== undefined) {
+    await bodies.set(logged.id, rawBody, { ttlSeconds });
+  }
+  await store.set(logged.id, logged, { ttlSeconds });
+  return logged;
+}
+
+/**
+ * Records a received webhook event, logging instead of throwing on failure
+ * so that a broken event log never fails a webhook delivery
+ */
+export async function recordEvent(entry: NewLoggedEvent): Promise<void> {
+  try {
+    await logEvent(entry);
+  } catch (error) {
+    logger.error('Could not log webhook event', { error });
+  }
+}
+
+export async function getLoggedEvent(id: string, store: KeyValueStore = defaultStore()): Promise<LoggedEvent | undefined> {
+  return store.get<LoggedEvent>(id);
+}
+
+/**
+ * Reads the raw body of a logged event, for replaying it; callers must check the user is an admin
+ */
+export async function getRawBody(id: string, bodies: KeyValueStore = rawBodyStore()): Promise<string | undefined> {
+  return bodies.get<string>(id);
+}
+
+/**
+ * Lists logged events matching the filter, newest first
+ */
+export async function listLoggedEvents(
+  filter: EventLogFilter = {},
+  store: KeyValueStore = defaultStore()
+): Promise<LoggedEvent[]> {
+  const entries = await Promise.all((await store.keys()).map((key) => store.get<LoggedEvent>(key)));
+  const from = filter.from ? new Date(filter.from).getTime() : -Infinity;
+  // A bare date such as 2024-01-31 includes the whole day
+  const to = filter.to ? new Date(filter.to).getTime() + (filter.to.length === 10 ? 24 * 60 * 60 * 1000 - 1 : 0) : Infinity;
+
+  return entries
+    .filter((entry): entry is LoggedEvent => entry !== undefined)
+    .filter((entry) => {
+      const receivedAt = new Date(entry.receivedAt).getTime();
+      return (
+        (!filter.source || entry.source === filter.source) &&
+        (!filter.type || entry.type === filter.type) &&
+        (!filter.status || entry.status === filter.status) &&
+        receivedAt >= from &&
+        receivedAt <= to
+      );
+    })
+    .sort((a, b) => b.receivedAt.localeCompare(a.receivedAt));
+}
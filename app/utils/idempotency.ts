@@ -0,0 +1,83 @@
+/**
+ * Idempotent webhook processing
+ *
+ * Svix and Stripe both retry deliveries, so the same event can arrive more
+ * than once. Each delivery is recorded by its `svix-id` or Stripe event ID
+ * together with its outcome, and deliveries that already succeeded are
+ * acknowledged without being processed again.
+ */
+
+import { getKeyValueStore, type KeyValueStore } from './kv-store';
+import { idempotencyTtlSeconds } from './config';
+
+export type WebhookSource = 'clerk' | 'stripe';
+
+export type ProcessingOutcome = 'processing' | 'succeeded' | 'failed';
+
+export interface ProcessedEvent {
+  source: WebhookSource;
+  eventId: string;
+  outcome: ProcessingOutcome;
+  /** HTTP status returned for the delivery, once finished */
+  status?: number;
+  error?: string;
+  updatedAt: string;
+}
+
+// A claim is released if processing crashes without recording an outcome
+const PROCESSING_TTL_SECONDS = 5 * 60;
+
+/**
+ * Runs the handler once per event ID
+ * - Events that already succeeded get a 200 without running the handler
+ * - Events still being processed by another delivery get a 409, so the provider retries later
+ * - Failed events are processed again
+ * @param source Which provider sent the event
+ * @param eventId The `svix-id` header or Stripe `event.id`, read after signature verification
+ * @param handler Processes the event and returns the response to send
+ * @param store Where processed events are recorded, defaults to the `processed-events` store
+ */
+export async function withIdempotency(
+  source: WebhookSource,
+  eventId: string,
+  handler: () => Promise<Response>,
+  store: KeyValueStore = getKeyValueStore('processed-events')
+): Promise<Response> {
+  const key = `${source}:${eventId}`;
+  const record = (outcome: ProcessingOutcome, details: Partial<ProcessedEvent> = {}): ProcessedEvent => ({
+    source,
+    eventId,
+    outcome,
+    ...details,
+    updatedAt: new Date().toISOString(),
+  });
+
+  const previous = await store.get<ProcessedEvent>(key);
+  if (previous?.outcome === 'succeeded') {
+    return new Response('Webhook already processed', { status: 200 });
+  }
+
+  let claimed = true;
+  if (previous?.outcome === 'failed') {
+    await store.set(key, record('processing'), { ttlSeconds: PROCESSING_TTL_SECONDS });
+  } else {
+    claimed = await store.setIfAbsent(key, record('processing'), { ttlSeconds: PROCESSING_TTL_SECONDS });
+  }
+  if (!claimed) {
+    return new Response('Webhook is already being processed', { status: 409 });
+  }
+
+  try {
+    const response = await handler();
+    const outcome = response.ok ? 'succeeded' : 'failed';
+    await store.set(key, record(outcome, { status: response.status }), { ttlSeconds: idempotencyTtlSeconds() });
+    return response;
+  } catch (error) {
+    await store.set(
+      key,
+      record('failed', { error: error instanceof Error ? error.message : String(error) }),
+      { ttlSeconds: idempotencyTtlSeconds() }
+    );
+    throw error;
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Links Stripe customers to Clerk users so both webhook sources notify the same Novu subscriber
+ *
+ * A customer resolves to its Clerk user through, in order:
+ * 1. `clerkUserId` in the Stripe customer's metadata
+ * 2. the local mapping table
+ * Checkout creates and links the customer before the session, since Stripe
+ * doesn't deliver events in order: the subscription and first invoice events
+ * can arrive before `checkout.session.completed`.
+ */
+
+import type Stripe from "stripe";
+import { getKeyValueStore, type KeyValueStore } from "./kv-store";
+import { expandableId } from "./stripe-payloads";
+import { getStripe } from "./stripe-client";
+
+/** Metadata key holding the Clerk user ID on Stripe customers and Checkout sessions */
+export const CLERK_USER_ID_METADATA_KEY = "clerkUserId";
+
+/** Metadata key holding the Clerk organization a customer pays for, when checkout started inside one */
+export const CLERK_ORGANIZATION_ID_METADATA_KEY = "clerkOrganizationId";
+
+function defaultStore(): KeyValueStore {
+  return getKeyValueStore("stripe-customer-links");
+}
+
+/**
+ * Resolves the Clerk user ID for a Stripe customer
+ * @returns The Clerk user ID, or null when the customer is not linked
+ */
+export async function resolveClerkUserId(
+  customer: Stripe.Customer,
+  store: KeyValueStore = defaultStore()
+): Promise<string | null> {
+  const fromMetadata = customer.metadata?.[CLERK_USER_ID_METADATA_KEY];
+  if (fromMetadata) {
+    return fromMetadata;
+  }
+  return (await store.get<string>(`customer:${customer.id}`)) ?? null;
+}
+
+/**
+ * Returns the Stripe customer linked to a Clerk user, if any
+ */
+export async function getCustomerIdForUser(
+  clerkUserId: string,
+  store: KeyValueStore = defaultStore()
+): Promise<string | null> {
+  return (await store.get<string>(`user:${clerkUserId}`)) ?? null;
+}
+
+/**
+ * Records the link in both directions in the local mapping table
+ */
+export async function linkCustomerToUser(
+  customerId: string,
+  clerkUserId: string,
+  store: KeyValueStore = defaultStore()
+): Promise<void> {
+  await store.set(`customer:${customerId}`, clerkUserId);
+  await store.set(`user:${clerkUserId}`, customerId);
+}
+
+export interface NewCustomerDetails {
+  email?: string;
+  name?: string;
+  /** The Clerk organization the customer pays for, if any */
+  organizationId?: string;
+}
+
+/**
+ * Creates a Stripe customer for a Clerk user, with the user in its metadata, and links it
+ * @returns The new customer's ID
+ */
+export async function createCustomerForUser(
+  clerkUserId: string,
+  { email, name, organizationId }: NewCustomerDetails,
+  store: KeyValueStore = defaultStore()
+): Promise<string> {
+  const customer = await getStripe().customers.create(
+    {
+      email,
+      name,
+      metadata: {
+        [CLERK_USER_ID_METADATA_KEY]: clerkUserId,
+        ...(organizationId ? { [CLERK_ORGANIZATION_ID_METADATA_KEY]: organizationId } : {}),
+      },
+    },
+    // A double-clicked Subscribe button creates one customer, not two
+    { idempotencyKey: `clerk-customer-${clerkUserId}` }
+  );
+  await linkCustomerToUser(customer.id, clerkUserId, store);
+  return customer.id;
+}
+
+/**
+ * Links the customer of a completed Checkout session to the Clerk user who started it.
+ * The user is read from `client_reference_id`, falling back to the session's `clerkUserId` metadata.
+ * The link is also written to the customer's metadata so it survives without the local table,
+ * along with the session's `clerkOrganizationId` when checkout was started inside an organization.
+ * @returns The linked Clerk user ID, or null when the session carries no customer or user
+ */
+export async function linkCheckoutSession(
+  session: Stripe.Checkout.Session,
+  store: KeyValueStore = defaultStore()
+): Promise<string | null> {
+  const customerId = expandableId(session.customer);
+  const clerkUserId = session.client_reference_id || session.metadata?.[CLERK_USER_ID_METADATA_KEY];
+  if (!customerId || !clerkUserId) {
+    return null;
+  }
+
+  await linkCustomerToUser(customerId, clerkUserId, store);
+  const organizationId = session.metadata?.[CLERK_ORGANIZATION_ID_METADATA_KEY];
+  await getStripe().customers.update(customerId, {
+    metadata: {
+      [CLERK_USER_ID_METADATA_KEY]: clerkUserId,
+      ...(organizationId ? { [CLERK_ORGANIZATION_ID_METADATA_KEY]: organizationId } : {}),
+    },
+  });
+  return clerkUserId;
+}
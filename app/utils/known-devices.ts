@@ -0,0 +1,73 @@
+/**
+ * Remembers the devices and clients each user has signed in from, so sign-in
+ * alerts are only sent for ones we haven't seen before
+ *
+ * The device is recorded before the alert is sent, so the sessions reported as
+ * new are kept too: a redelivered or replayed `session.created` for one of them
+ * is still reported as new instead of being filtered as a known device.
+ */
+
+import { createHash } from 'crypto';
+import type { SessionJSON } from '@clerk/nextjs/server';
+import { getKeyValueStore, type KeyValueStore } from './kv-store';
+
+interface KnownDevices {
+  /** Hashes of the device type, browser and location used to sign in */
+  devices: string[];
+  /** Clerk client IDs, one per browser or app install */
+  clients: string[];
+  /** The latest session IDs reported as new, oldest first */
+  newSessions?: string[];
+}
+
+// Redeliveries arrive within days, so only the latest few sessions are needed
+const MAX_NEW_SESSIONS = 20;
+
+/**
+ * Builds a fingerprint for the device and location in the session's latest activity
+ */
+export function deviceFingerprint(session: SessionJSON): string {
+  const activity = session.latest_activity;
+  const parts = [
+    activity?.device_type,
+    activity?.browser_name,
+    activity?.is_mobile ? 'mobile' : 'desktop',
+    activity?.city,
+    activity?.country,
+  ];
+  return createHash('sha256').update(parts.map((part) => part || '').join('|')).digest('hex');
+}
+
+/**
+ * Records the session's device and client for its user
+ * @param session The session from a Clerk `session.created` event
+ * @param store Where known devices are kept, defaults to the `known-devices` store
+ * @returns True when the sign-in comes from a device and client not seen before,
+ * or is a session already reported as new. A user's first sign-in is never reported as new.
+ */
+export async function rememberDevice(
+  session: SessionJSON,
+  store: KeyValueStore = getKeyValueStore('known-devices')
+): Promise<boolean> {
+  const key = `user:${session.user_id}`;
+  const known = (await store.get<KnownDevices>(key)) || { devices: [], clients: [] };
+  const newSessions = known.newSessions || [];
+  if (newSessions.includes(session.id)) {
+    return true;
+  }
+  const device = deviceFingerprint(session);
+
+  const isFirstSignIn = known.devices.length === 0 && known.clients.length === 0;
+  const isKnown = known.devices.includes(device) || known.clients.includes(session.client_id);
+  const isNew = !isFirstSignIn && !isKnown;
+
+  if (!known.devices.includes(device) || !known.clients.includes(session.client_id)) {
+    await store.set<KnownDevices>(key, {
+      devices: known.devices.includes(device) ? known.devices : [...known.devices, device],
+      clients: known.clients.includes(session.client_id) ? known.clients : [...known.clients, session.client_id],
+      newSessions: isNew ? [...newSessions, session.id].slice(-MAX_NEW_SESSIONS) : newSessions,
+    });
+  }
+
+  return isNew;
+}
@@ -0,0 +1,258 @@
+/**
+ * Pluggable key-value storage for webhook state
+ *
+ * Stores are namespaced so several features can share one backend. The
+ * backend is selected with `KV_STORE`:
+ * - `memory` (default) keeps values in the process, and they are lost on restart
+ * - `file` persists each namespace as a JSON file under `KV_FILE_DIR` (default `.data`)
+ * - `redis` talks to any Redis-compatible REST endpoint (Upstash, Vercel KV)
+ *   at `KV_REST_API_URL`, authenticated with `KV_REST_API_TOKEN`
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { keyValueStoreConfig } from './config';
+
+export interface SetOptions {
+  /** Expire the value after this many seconds */
+  ttlSeconds?: number;
+}
+
+export interface KeyValueStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, options?: SetOptions): Promise<void>;
+  /** Sets the value only when the key is missing, returning whether it was set */
+  setIfAbsent<T>(key: string, value: T, options?: SetOptions): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  /** Lists the stored keys that start with the prefix */
+  keys(prefix?: string): Promise<string[]>;
+}
+
+interface StoredEntry {
+  value: unknown;
+  expiresAt?: number;
+}
+
+function isExpired(entry: StoredEntry): boolean {
+  return entry.expiresAt !== undefined && entry.expiresAt <= Date.now();
+}
+
+function toEntry(value: unknown, options?: SetOptions): StoredEntry {
+  return {
+    value,
+    expiresAt: options?.ttlSeconds ? Date.now() + options.ttlSeconds * 1000 : undefined,
+  };
+}
+
+/**
+ * Keeps values in a Map, for development and tests
+ */
+export class MemoryKeyValueStore implements KeyValueStore {
+  private entries = new Map<string, StoredEntry>();
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry || isExpired(entry)) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, options?: SetOptions): Promise<void> {
+    this.entries.set(key, toEntry(value, options));
+  }
+
+  async setIfAbsent<T>(key: string, value: T, options?: SetOptions): Promise<boolean> {
+    const entry = this.entries.get(key);
+    if (entry && !isExpired(entry)) {
+      return false;
+    }
+    this.entries.set(key, toEntry(value, options));
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async keys(prefix = ''): Promise<string[]> {
+    return Array.from(this.entries.entries())
+      .filter(([key, entry]) => key.startsWith(prefix) && !isExpired(entry))
+      .map(([key]) => key);
+  }
+}
+
+/**
+ * Persists values to a single JSON file, for local single-process deployments
+ */
+export class FileKeyValueStore implements KeyValueStore {
+  // Reads and writes are chained so concurrent updates don't overwrite each other
+  // and reads never see a file that is halfway through being written
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private async read(): Promise<Record<string, StoredEntry>> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  // Written next to the file and renamed over it, so a crash mid-write leaves the old file intact
+  private async write(entries: Record<string, StoredEntry>): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(entries, null, 2));
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  private enqueue<T>(fn: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(fn);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private update<T>(fn: (entries: Record<string, StoredEntry>) => T): Promise<T> {
+    return this.enqueue(async () => {
+      const entries = await this.read();
+      const result = fn(entries);
+      await this.write(entries);
+      return result;
+    });
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = (await this.enqueue(() => this.read()))[key];
+    if (!entry || isExpired(entry)) {
+      return undefined;
+    }
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, options?: SetOptions): Promise<void> {
+    await this.update((entries) => {
+      entries[key] = toEntry(value, options);
+    });
+  }
+
+  async setIfAbsent<T>(key: string, value: T, options?: SetOptions): Promise<boolean> {
+    return this.update((entries) => {
+      const entry = entries[key];
+      if (entry && !isExpired(entry)) {
+        return false;
+      }
+      entries[key] = toEntry(value, options);
+      return true;
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.update((entries) => {
+      delete entries[key];
+    });
+  }
+
+  async keys(prefix = ''): Promise<string[]> {
+    const entries = await this.enqueue(() => this.read());
+    return Object.keys(entries).filter((key) => key.startsWith(prefix) && !isExpired(entries[key]));
+  }
+}
+
+/**
+ * Stores values in Redis through a REST endpoint that accepts commands as JSON arrays.
+ * Keys are prefixed with the namespace so several stores can share one database.
+ */
+export class RedisKeyValueStore implements KeyValueStore {
+  constructor(
+    private readonly url: string,
+    private readonly token: string,
+    private readonly prefix: string
+  ) {}
+
+  private async command<T>(...args: (string | number)[]): Promise<T> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(args),
+    });
+    const body = await response.json();
+    if (!response.ok || body.error) {
+      throw new Error(`Redis command ${args[0]} failed: ${body.error || response.status}`);
+    }
+    return body.result as T;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const value = await this.command<string | null>('GET', this.prefix + key);
+    return value === null ? undefined : (JSON.parse(value) as T);
+  }
+
+  async set<T>(key: string, value: T, options?: SetOptions): Promise<void> {
+    const args: (string | number)[] = ['SET', this.prefix + key, JSON.stringify(value)];
+    if (options?.ttlSeconds) {
+      args.push('EX', options.ttlSeconds);
+    }
+    await this.command(...args);
+  }
+
+  async setIfAbsent<T>(key: string, value: T, options?: SetOptions): Promise<boolean> {
+    const args: (string | number)[] = ['SET', this.prefix + key, JSON.stringify(value), 'NX'];
+    if (options?.ttlSeconds) {
+      args.push('EX', options.ttlSeconds);
+    }
+    return (await this.command<string | null>(...args)) === 'OK';
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.command('DEL', this.prefix + key);
+  }
+
+  async keys(prefix = ''): Promise<string[]> {
+    const keys = await this.command<string[]>('KEYS', `${this.prefix}${prefix}*`);
+    return keys.map((key) => key.slice(this.prefix.length));
+  }
+}
+
+const stores = new Map<string, KeyValueStore>();
+
+/**
+ * Returns the shared store for a namespace, creating it from the configured backend
+ * @param namespace A short name for the feature using the store, e.g. `known-devices`
+ */
+export function getKeyValueStore(namespace: string): KeyValueStore {
+  let store = stores.get(namespace);
+  if (!store) {
+    store = createKeyValueStore(namespace);
+    stores.set(namespace, store);
+  }
+  return store;
+}
+
+/**
+ * Forgets the shared stores so `getKeyValueStore` creates fresh ones, e.g. to start each test with empty memory stores
+ */
+export function resetKeyValueStores(): void {
+  stores.clear();
+}
+
+function createKeyValueStore(namespace: string): KeyValueStore {
+  const config = keyValueStoreConfig();
+
+  switch (config.kind) {
+    case 'memory':
+      return new MemoryKeyValueStore();
+    case 'file':
+      return new FileKeyValueStore(path.join(config.dir, `${namespace}.json`));
+    case 'redis':
+      return new RedisKeyValueStore(config.url, config.token, `${namespace}:`);
+  }
+}
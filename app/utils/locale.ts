@@ -0,0 +1,106 @@
+/**
+ * Subscriber locale resolution
+ *
+ * Candidates are tried in order and the first one that matches a supported
+ * locale wins:
+ * 1. Clerk `public_metadata.locale`
+ * 2. the Stripe customer's `preferred_locales`
+ * 3. the `Accept-Language` header captured at sign-up
+ * 4. `DEFAULT_LOCALE`
+ * Every locale is normalized to its canonical BCP 47 form, e.g. `en_us` -> `en-US`,
+ * so Novu's translated templates always see the same format.
+ */
+
+import { localeConfig } from './config';
+
+export interface LocaleSources {
+  clerkLocale?: unknown;
+  stripePreferredLocales?: string[] | null;
+  acceptLanguage?: string | null;
+}
+
+/**
+ * Returns the canonical BCP 47 form of a locale, or null when it isn't a valid tag
+ */
+export function normalizeLocale(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+
+  try {
+    return Intl.getCanonicalLocales(value.trim().replace(/_/g, '-'))[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Lists the languages of an `Accept-Language` header, most preferred first
+ */
+export function parseAcceptLanguage(header: string | null | undefined): string[] {
+  if (!header) {
+    return [];
+  }
+
+  return header
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const quality = params.find((param) => param.trim().startsWith('q='));
+      return { tag: tag.trim(), q: quality ? Number(quality.trim().slice(2)) : 1, index };
+    })
+    .filter(({ tag, q }) => tag && tag !== '*' && q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index)
+    .map(({ tag }) => tag);
+}
+
+/**
+ * Reads the supported locales from `SUPPORTED_LOCALES` (comma-separated), defaulting to `en-US`
+ */
+export function getSupportedLocales(): string[] {
+  return localeConfig().supportedLocales;
+}
+
+/**
+ * Reads `DEFAULT_LOCALE`, falling back to the first supported locale when it isn't one of them
+ */
+export function getDefaultLocale(supported: string[] = getSupportedLocales()): string {
+  const { defaultLocale } = localeConfig();
+  return supported.includes(defaultLocale) ? defaultLocale : supported[0];
+}
+
+/**
+ * Finds the supported locale for a candidate: an exact match first, then one with the same language
+ * e.g. `en-GB` matches `en-US` when only `en-US` is supported
+ */
+export function matchSupportedLocale(candidate: unknown, supported: string[] = getSupportedLocales()): string | null {
+  const locale = normalizeLocale(candidate);
+  if (!locale) {
+    return null;
+  }
+  if (supported.includes(locale)) {
+    return locale;
+  }
+
+  const language = locale.split('-')[0];
+  return supported.find((option) => option.split('-')[0] === language) ?? null;
+}
+
+/**
+ * Resolves a subscriber's locale from the available sources
+ */
+export function resolveLocale(sources: LocaleSources, supported: string[] = getSupportedLocales()): string {
+  const candidates = [
+    sources.clerkLocale,
+    ...(sources.stripePreferredLocales ?? []),
+    ...parseAcceptLanguage(sources.acceptLanguage),
+  ];
+
+  for (const candidate of candidates) {
+    const match = matchSupportedLocale(candidate, supported);
+    if (match) {
+      return match;
+    }
+  }
+  return getDefaultLocale(supported);
+}
@@ -0,0 +1,141 @@
+/**
+ * Structured JSON-lines logger with a redaction policy
+ *
+ * Every entry is written as one JSON object with the time, level and message,
+ * the webhook context (`source`, `eventId`, `correlationId`) and any extra
+ * fields. Before anything is written, the redaction policy is applied:
+ * - one-time codes, magic links, action URLs, message bodies, tokens, secrets
+ *   and signatures are replaced with `[REDACTED]`
+ * - email addresses keep their first character and domain, e.g. `a***@example.com`
+ * - phone numbers keep their last two digits, e.g. `+*********00`
+ * The context is carried with AsyncLocalStorage, so code deep in the pipeline
+ * logs with the event it is handling without having a logger passed in.
+ * Entries below `LOG_LEVEL` (default `info`) are dropped.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import type { WebhookSource } from './idempotency';
+import { logLevel } from './config';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogContext {
+  source?: WebhookSource;
+  /** The `svix-id` header or Stripe event ID */
+  eventId?: string;
+  /** Ties together every entry written while handling one request */
+  correlationId?: string;
+}
+
+export type LogFields = Record<string, unknown>;
+
+export const REDACTED = '[REDACTED]';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Matched against field names; the values are hidden entirely
+const SECRET_KEY_PATTERN =
+  /otp|^code$|token|secret|password|signature|authorization|api_?key|magic_?link|action_url|ticket|^body(_plain)?$|^message$/i;
+const PHONE_KEY_PATTERN = /phone/i;
+const EMAIL_PATTERN = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+// Only numbers in international format, so IDs and timestamps aren't mistaken for phone numbers
+const PHONE_PATTERN = /\+\d[\d\s().-]{6,}\d/g;
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+function maskPhone(value: string): string {
+  const digits = value.replace(/\D/g, '');
+  return `+${'*'.repeat(Math.max(digits.length - 2, 0))}${digits.slice(-2)}`;
+}
+
+function redactString(value: string): string {
+  return value.replace(EMAIL_PATTERN, '$1***@$2').replace(PHONE_PATTERN, maskPhone);
+}
+
+/**
+ * Applies the redaction policy to a value about to be logged
+ * @param value Any value; objects and arrays are copied, never modified
+ * @param key The field name the value was found under, if any
+ */
+export function redact(value: unknown, key?: string): unknown {
+  if (key && SECRET_KEY_PATTERN.test(key)) {
+    return value === undefined || value === null || value === '' ? value : REDACTED;
+  }
+  if (typeof value === 'string') {
+    return key && PHONE_KEY_PATTERN.test(key) && value ? maskPhone(value) : redactString(value);
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message) };
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, key));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([field, item]) => [field, redact(item, field)]));
+  }
+  return value;
+}
+
+function minimumLevel(): number {
+  try {
+    return LEVELS[logLevel()];
+  } catch {
+    // An invalid LOG_LEVEL is reported by validateConfig; logging itself must never throw
+    return LEVELS.info;
+  }
+}
+
+function write(level: LogLevel, message: string, fields: LogFields = {}) {
+  if (LEVELS[level] < minimumLevel()) {
+    return;
+  }
+
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    msg: redactString(message),
+    ...contextStorage.getStore(),
+    ...(redact(fields) as LogFields),
+  };
+  const line = JSON.stringify(entry);
+  if (level === 'warn' || level === 'error') {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields),
+};
+
+/**
+ * Runs a function with log context that every entry written inside it includes
+ * @param context The context; the correlation ID is inherited or generated when not given
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  const parent = contextStorage.getStore();
+  const correlationId = context.correlationId || parent?.correlationId || randomUUID();
+  return contextStorage.run({ ...parent, ...context, correlationId }, fn);
+}
+
+/**
+ * Adds to the current log context, e.g. the event ID once the event is verified
+ */
+export function addLogContext(context: LogContext): void {
+  const store = contextStorage.getStore();
+  if (store) {
+    Object.assign(store, context);
+  }
+}
+
+/**
+ * Reads the correlation ID a caller sent, so its logs and ours can be joined
+ */
+export function correlationIdFrom(headers: Headers): string | undefined {
+  return headers.get('x-correlation-id') || headers.get('x-request-id') || undefined;
+}
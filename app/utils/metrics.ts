@@ -0,0 +1,196 @@
+/**
+ * In-process counters and histograms for the notification pipeline
+ *
+ * The webhook routes and notification helpers record into the metrics below,
+ * and `/api/metrics` renders them in the Prometheus text exposition format.
+ * Values live in the process, so each server instance reports its own and
+ * they reset on restart; Prometheus handles both when it scrapes every instance.
+ */
+
+import type { WebhookSource } from './idempotency';
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: 'counter' | 'histogram';
+  render(): string[];
+  reset(): void;
+}
+
+// Seconds; suited to webhook handling, where most steps take milliseconds but Novu calls can take seconds
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const registry: Metric[] = [];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+// Sorted so the same labels in any order map to one series
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+export class Counter<L extends string = string> implements Metric {
+  readonly type = 'counter';
+  private readonly series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {
+    registry.push(this);
+  }
+
+  inc(labels: Record<L, string>, amount = 1): void {
+    const key = seriesKey(labels);
+    const entry = this.series.get(key) ?? { labels, value: 0 };
+    entry.value += amount;
+    this.series.set(key, entry);
+  }
+
+  /** Returns the current value, mainly for tests */
+  get(labels: Record<L, string>): number {
+    return this.series.get(seriesKey(labels))?.value ?? 0;
+  }
+
+  render(): string[] {
+    return Array.from(this.series.values()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+export class Histogram<L extends string = string> implements Metric {
+  readonly type = 'histogram';
+  private readonly series = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private readonly bucketBounds = DEFAULT_BUCKETS) {
+    registry.push(this);
+  }
+
+  observe(labels: Record<L, string>, seconds: number): void {
+    const key = seriesKey(labels);
+    const entry = this.series.get(key) ?? { labels, buckets: this.bucketBounds.map(() => 0), sum: 0, count: 0 };
+    this.bucketBounds.forEach((bound, index) => {
+      if (seconds <= bound) {
+        entry.buckets[index]++;
+      }
+    });
+    entry.sum += seconds;
+    entry.count++;
+    this.series.set(key, entry);
+  }
+
+  /**
+   * Runs the function and observes how long it took, whether it resolved or threw
+   */
+  async time<T>(labels: Record<L, string>, fn: () => Promise<T> | T): Promise<T> {
+    const startedAt = performance.now();
+    try {
+      return await fn();
+    } finally {
+      this.observe(labels, (performance.now() - startedAt) / 1000);
+    }
+  }
+
+  /** Returns how many observations were made, mainly for tests */
+  count(labels: Record<L, string>): number {
+    return this.series.get(seriesKey(labels))?.count ?? 0;
+  }
+
+  render(): string[] {
+    return Array.from(this.series.values()).flatMap(({ labels, buckets, sum, count }) => [
+      ...this.bucketBounds.map(
+        (bound, index) => `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[index]}`
+      ),
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+      `${this.name}_sum${formatLabels(labels)} ${sum}`,
+      `${this.name}_count${formatLabels(labels)} ${count}`,
+    ]);
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+export const webhookEventsReceived = new Counter<'source' | 'type'>(
+  'webhook_events_received_total',
+  'Webhook deliveries received, by the event type they claim before verification'
+);
+export const webhookEventsVerified = new Counter<'source' | 'type'>(
+  'webhook_events_verified_total',
+  'Webhook deliveries whose signature was verified'
+);
+export const webhookEventsRejected = new Counter<'source' | 'type'>(
+  'webhook_events_rejected_total',
+  'Webhook deliveries rejected before verification succeeded'
+);
+export const notificationTriggers = new Counter<'workflow' | 'outcome'>(
+  'notification_triggers_total',
+  'Workflow triggers by outcome: succeeded, failed or skipped'
+);
+export const notificationTriggerRetries = new Counter<'workflow' | 'outcome'>(
+  'notification_trigger_retries_total',
+  'Retries of queued triggers by outcome: succeeded, rescheduled or dead_lettered'
+);
+
+export const webhookVerificationDuration = new Histogram<'source'>(
+  'webhook_verification_duration_seconds',
+  'Time spent verifying webhook signatures'
+);
+export const webhookStepDuration = new Histogram<'source' | 'step'>(
+  'webhook_step_duration_seconds',
+  'Time spent in each step that builds subscribers, topics and payloads from an event'
+);
+export const notificationTriggerDuration = new Histogram<'workflow'>(
+  'notification_trigger_duration_seconds',
+  'Time spent on calls that send a trigger through the notification transport'
+);
+
+/**
+ * The type label of deliveries that failed verification: anyone can post any
+ * type to the public webhook URLs, so it never becomes a label value
+ */
+export const UNVERIFIED_EVENT_TYPE = 'unknown';
+
+/**
+ * Counts a received delivery and whether it was verified or rejected
+ * @param type The verified event type, or `UNVERIFIED_EVENT_TYPE`
+ */
+export function recordDelivery(source: WebhookSource, type: string, verified: boolean): void {
+  webhookEventsReceived.inc({ source, type });
+  if (verified) {
+    webhookEventsVerified.inc({ source, type });
+  } else {
+    webhookEventsRejected.inc({ source, type });
+  }
+}
+
+/**
+ * Renders every metric in the Prometheus text exposition format
+ */
+export function renderMetrics(): string {
+  const lines = registry.flatMap((metric) => [
+    `# HELP ${metric.name} ${metric.help}`,
+    `# TYPE ${metric.name} ${metric.type}`,
+    ...metric.render(),
+  ]);
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Clears every recorded value, e.g. to start each test from zero
+ */
+export function resetMetrics(): void {
+  for (const metric of registry) {
+    metric.reset();
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Per-user notification preferences, grouped by category and channel
+ *
+ * Users choose which channels each category of workflow may use from the
+ * dashboard. The choice is saved in three places:
+ * - Novu subscriber preferences, which Novu applies per channel at delivery
+ * - Clerk `private_metadata.notificationPreferences`, the durable copy
+ * - the KV store, so the webhook pipeline can check it without calling Clerk
+ * The pipeline skips a trigger when every channel of its category is off.
+ * Security workflows are locked on and can't be disabled. Workflows outside
+ * every category are always sent.
+ */
+
+import { getKeyValueStore, type KeyValueStore } from './kv-store';
+
+export type NotificationCategory = 'security' | 'billing' | 'product_updates';
+
+export type NotificationChannel = 'email' | 'sms' | 'in_app';
+
+export type ChannelPreferences = Record<NotificationChannel, boolean>;
+
+export type NotificationPreferences = Record<NotificationCategory, ChannelPreferences>;
+
+export interface CategoryDefinition {
+  label: string;
+  description: string;
+  /** Novu workflow IDs in the category; SMS variants (`<id>-sms`) are included automatically */
+  workflows: string[];
+  /** Locked categories are always sent on every channel */
+  locked: boolean;
+}
+
+/** Key of the preferences in Clerk `private_metadata` */
+export const PRIVATE_METADATA_KEY = 'notificationPreferences';
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['email', 'sms', 'in_app'];
+
+export const notificationCategories: Record<NotificationCategory, CategoryDefinition> = {
+  security: {
+    label: 'Security',
+    description: 'Verification codes, password resets, sign-in alerts and account changes',
+    workflows: [
+      'verification-code',
+      'affiliation-code',
+      'reset-password-code',
+      'magic-link-sign-in',
+      'magic-link-sign-up',
+      'magic-link-verify-email',
+      'password-changed',
+      'password-removed',
+      'new-sign-in',
+      'passkey-added',
+      'primary-email-address-changed',
+    ],
+    locked: true,
+  },
+  billing: {
+    label: 'Billing',
+    description: 'Subscription changes, invoices, payments and refunds',
+    workflows: [
+      'customer-subscription-created',
+      'customer-subscription-updated',
+      'customer-subscription-deleted',
+      'customer-subscription-trial-will-end',
+      'invoice-paid',
+      'invoice-payment-failed',
+      'invoice-upcoming',
+      'checkout-session-completed',
+      'charge-refunded',
+    ],
+    locked: false,
+  },
+  product_updates: {
+    label: 'Product updates',
+    description: 'Welcome messages and news about the product',
+    workflows: ['user-created'],
+    locked: false,
+  },
+};
+
+function defaultStore(): KeyValueStore {
+  return getKeyValueStore('notification-preferences');
+}
+
+/**
+ * Returns preferences with every channel of every category enabled
+ */
+export function defaultPreferences(): NotificationPreferences {
+  const preferences = {} as NotificationPreferences;
+  for (const category of Object.keys(notificationCategories) as NotificationCategory[]) {
+    preferences[category] = { email: true, sms: true, in_app: true };
+  }
+  return preferences;
+}
+
+/**
+ * Reads preferences from untrusted input such as Clerk metadata, filling in
+ * missing values with the defaults and forcing locked categories on
+ */
+export function parsePreferences(value: unknown): NotificationPreferences {
+  const preferences = defaultPreferences();
+  const input = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+
+  for (const category of Object.keys(preferences) as NotificationCategory[]) {
+    if (notificationCategories[category].locked) {
+      continue;
+    }
+
+    const channels = input[category];
+    if (!channels || typeof channels !== 'object') {
+      continue;
+    }
+    for (const channel of NOTIFICATION_CHANNELS) {
+      const enabled = (channels as Record<string, unknown>)[channel];
+      if (typeof enabled === 'boolean') {
+        preferences[category][channel] = enabled;
+      }
+    }
+  }
+  return preferences;
+}
+
+/**
+ * Finds the category of a workflow, treating `<id>-sms` as `<id>`
+ */
+export function categoryForWorkflow(workflowId: string): NotificationCategory | undefined {
+  const baseId = workflowId.replace(/-sms$/, '');
+  return (Object.keys(notificationCategories) as NotificationCategory[]).find((category) =>
+    notificationCategories[category].workflows.includes(baseId)
+  );
+}
+
+/**
+ * Checks whether a workflow may be triggered under the given preferences
+ */
+export function isWorkflowEnabled(preferences: NotificationPreferences, workflowId: string): boolean {
+  const category = categoryForWorkflow(workflowId);
+  if (!category || notificationCategories[category].locked) {
+    return true;
+  }
+  return NOTIFICATION_CHANNELS.some((channel) => preferences[category][channel]);
+}
+
+export async function getStoredPreferences(
+  subscriberId: string,
+  store: KeyValueStore = defaultStore()
+): Promise<NotificationPreferences | undefined> {
+  return store.get<NotificationPreferences>(subscriberId);
+}
+
+export async function saveStoredPreferences(
+  subscriberId: string,
+  preferences: NotificationPreferences,
+  store: KeyValueStore = defaultStore()
+): Promise<void> {
+  await store.set(subscriberId, preferences);
+}
+
+/**
+ * Checks a subscriber's stored preferences before triggering a workflow.
+ * Subscribers without saved preferences get every notification.
+ */
+export async function shouldTriggerWorkflow(
+  workflowId: string,
+  subscriberId: string,
+  store: KeyValueStore = defaultStore()
+): Promise<boolean> {
+  const category = categoryForWorkflow(workflowId);
+  if (!category || notificationCategories[category].locked) {
+    return true;
+  }
+
+  const preferences = await getStoredPreferences(subscriberId, store);
+  return !preferences || isWorkflowEnabled(preferences, workflowId);
+}
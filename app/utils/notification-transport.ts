@@ -0,0 +1,272 @@
+/**
+ * Pluggable transport for everything the app sends to Novu
+ *
+ * The notification helpers in `api/notifications/route.ts` call the configured
+ * transport instead of a Novu client, so the routes don't change when it is
+ * switched. The transport is selected with `NOTIFICATION_TRANSPORT`:
+ * - `novu` (default) calls the Novu API
+ * - `console` logs every call (redacted), and appends it unredacted to `NOTIFICATION_TRANSPORT_FILE`
+ *   when set, so codes and links can still be read during local development
+ * - `memory` records every call in the process, for tests
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Novu } from '@novu/api';
+import { ErrorDto } from '@novu/api/models/errors';
+import { notificationTransportConfig } from './config';
+import { logger } from './logger';
+import type { ChannelPreferences } from './notification-preferences';
+import type { TriggerRequest } from './retry-queue';
+import type { Subscriber } from './subscriber';
+
+export interface NotificationTransport {
+  /** Sends a workflow trigger, throwing when it fails */
+  trigger(request: TriggerRequest): Promise<void>;
+  /** Creates the subscriber, or updates it when the subscriberId already exists */
+  upsertSubscriber(subscriber: Subscriber): Promise<void>;
+  removeSubscriber(subscriberId: string): Promise<void>;
+  /** Clears every personal field on the subscriber while keeping its ID and history */
+  anonymizeSubscriber(subscriberId: string): Promise<void>;
+  updateWorkflowPreferences(subscriberId: string, workflowId: string, channels: ChannelPreferences): Promise<void>;
+  createTopic(topicKey: string, name: string): Promise<void>;
+  /** Renames the topic, creating it when it doesn't exist yet */
+  renameTopic(topicKey: string, name: string): Promise<void>;
+  /** Deletes the topic, succeeding when it doesn't exist */
+  deleteTopic(topicKey: string): Promise<void>;
+  addTopicSubscribers(topicKey: string, subscriberIds: string[]): Promise<void>;
+  removeTopicSubscribers(topicKey: string, subscriberIds: string[]): Promise<void>;
+}
+
+export type TransportMethod = keyof NotificationTransport;
+
+/**
+ * A call made through a non-Novu transport
+ */
+export interface TransportCall {
+  method: TransportMethod;
+  args: unknown[];
+  at: string;
+}
+
+/**
+ * Sends everything to the Novu API
+ */
+export class NovuTransport implements NotificationTransport {
+  constructor(private readonly novu: Novu) {}
+
+  async trigger({ workflowId, to, payload, tenant, overrides }: TriggerRequest): Promise<void> {
+    await this.novu.trigger({ workflowId, to, payload, tenant, overrides });
+  }
+
+  async upsertSubscriber(subscriber: Subscriber): Promise<void> {
+    await this.novu.subscribers.create(subscriber);
+  }
+
+  async removeSubscriber(subscriberId: string): Promise<void> {
+    await this.novu.subscribers.delete(subscriberId);
+  }
+
+  async anonymizeSubscriber(subscriberId: string): Promise<void> {
+    await this.novu.subscribers.patch({
+      firstName: null,
+      lastName: null,
+      email: null,
+      phone: null,
+      avatar: null,
+      data: {},
+    }, subscriberId);
+  }
+
+  async updateWorkflowPreferences(subscriberId: string, workflowId: string, channels: ChannelPreferences): Promise<void> {
+    await this.novu.subscribers.preferences.update({
+      workflowId,
+      channels: { email: channels.email, sms: channels.sms, inApp: channels.in_app },
+    }, subscriberId);
+  }
+
+  async createTopic(topicKey: string, name: string): Promise<void> {
+    await this.novu.topics.create({ key: topicKey, name });
+  }
+
+  // Organizations created before topic sync have no topic, so the first update creates it
+  async renameTopic(topicKey: string, name: string): Promise<void> {
+    try {
+      await this.novu.topics.rename({ name }, topicKey);
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error;
+      }
+      await this.createTopic(topicKey, name);
+    }
+  }
+
+  // Novu refuses to delete topics that have subscribers, so they are unassigned first
+  async deleteTopic(topicKey: string): Promise<void> {
+    try {
+      const { result } = await this.novu.topics.retrieve(topicKey);
+      if (result.subscribers.length > 0) {
+        await this.novu.topics.subscribers.remove({ subscribers: result.subscribers }, topicKey);
+      }
+      await this.novu.topics.delete(topicKey);
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error;
+      }
+    }
+  }
+
+  async addTopicSubscribers(topicKey: string, subscriberIds: string[]): Promise<void> {
+    await this.novu.topics.subscribers.assign({ subscribers: subscriberIds }, topicKey);
+  }
+
+  async removeTopicSubscribers(topicKey: string, subscriberIds: string[]): Promise<void> {
+    await this.novu.topics.subscribers.remove({ subscribers: subscriberIds }, topicKey);
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof ErrorDto && error.statusCode === 404;
+}
+
+/**
+ * Implements every transport method by handing the call to `record`
+ */
+abstract class CallTransport implements NotificationTransport {
+  protected abstract record(call: TransportCall): Promise<void>;
+
+  private call(method: TransportMethod, ...args: unknown[]): Promise<void> {
+    return this.record({ method, args, at: new Date().toISOString() });
+  }
+
+  trigger(request: TriggerRequest) {
+    return this.call('trigger', request);
+  }
+
+  upsertSubscriber(subscriber: Subscriber) {
+    return this.call('upsertSubscriber', subscriber);
+  }
+
+  removeSubscriber(subscriberId: string) {
+    return this.call('removeSubscriber', subscriberId);
+  }
+
+  anonymizeSubscriber(subscriberId: string) {
+    return this.call('anonymizeSubscriber', subscriberId);
+  }
+
+  updateWorkflowPreferences(subscriberId: string, workflowId: string, channels: ChannelPreferences) {
+    return this.call('updateWorkflowPreferences', subscriberId, workflowId, channels);
+  }
+
+  createTopic(topicKey: string, name: string) {
+    return this.call('createTopic', topicKey, name);
+  }
+
+  renameTopic(topicKey: string, name: string) {
+    return this.call('renameTopic', topicKey, name);
+  }
+
+  deleteTopic(topicKey: string) {
+    return this.call('deleteTopic', topicKey);
+  }
+
+  addTopicSubscribers(topicKey: string, subscriberIds: string[]) {
+    return this.call('addTopicSubscribers', topicKey, subscriberIds);
+  }
+
+  removeTopicSubscribers(topicKey: string, subscriberIds: string[]) {
+    return this.call('removeTopicSubscribers', topicKey, subscriberIds);
+  }
+}
+
+/**
+ * Logs every call through the redacting logger, optionally appending it in full
+ * to a JSON-lines file, for local development
+ */
+export class ConsoleTransport extends CallTransport {
+  // Appends are chained so lines from concurrent calls don't interleave
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath?: string) {
+    super();
+  }
+
+  protected async record(call: TransportCall): Promise<void> {
+    logger.info('Notification transport call', { ...call });
+
+    const { filePath } = this;
+    if (!filePath) {
+      return;
+    }
+    const next = this.queue.then(async () => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.appendFile(filePath, `${JSON.stringify(call)}\n`);
+    });
+    this.queue = next.catch(() => undefined);
+    await next;
+  }
+}
+
+/**
+ * Keeps every call in memory so tests can assert on what would have been sent
+ */
+export class RecordingTransport extends CallTransport {
+  readonly calls: TransportCall[] = [];
+
+  /** Set to make every call throw, e.g. to simulate a Novu outage */
+  failWith: Error | null = null;
+
+  protected async record(call: TransportCall): Promise<void> {
+    if (this.failWith) {
+      throw this.failWith;
+    }
+    this.calls.push(call);
+  }
+
+  /** The triggers sent so far, in order */
+  get triggers(): TriggerRequest[] {
+    return this.calls.filter((call) => call.method === 'trigger').map((call) => call.args[0] as TriggerRequest);
+  }
+
+  reset(): void {
+    this.calls.length = 0;
+    this.failWith = null;
+  }
+}
+
+let transport: NotificationTransport | undefined;
+
+/**
+ * Returns the shared transport, creating it from `NOTIFICATION_TRANSPORT` on first use
+ */
+export function getNotificationTransport(): NotificationTransport {
+  if (!transport) {
+    transport = createNotificationTransport();
+  }
+  return transport;
+}
+
+/**
+ * Replaces the shared transport, e.g. with a `RecordingTransport` in tests
+ */
+export function setNotificationTransport(next: NotificationTransport | undefined): void {
+  transport = next;
+}
+
+function createNotificationTransport(): NotificationTransport {
+  const config = notificationTransportConfig();
+
+  switch (config.kind) {
+    case 'novu':
+      return new NovuTransport(new Novu({
+        secretKey: config.secretKey,
+        // Point at a local stand-in for the Novu API during development
+        serverURL: config.apiUrl,
+      }));
+    case 'console':
+      return new ConsoleTransport(config.filePath);
+    case 'memory':
+      return new RecordingTransport();
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Organization context for multi-tenant notifications
+ *
+ * Triggers for a Clerk organization carry it as the Novu tenant and as an
+ * `organization` object in the payload, so templates can be branded with the
+ * org's name and logo. Each organization also has a config in the KV store,
+ * refreshed from Clerk `organization.*` events, with optional overrides read
+ * from the org's `private_metadata.notificationConfig`:
+ * - `senderName` replaces the email sender name
+ * - `disabledWorkflows` lists workflow IDs never sent for the org, except
+ *   security workflows, which are locked on as in the subscriber preferences
+ */
+
+import type { OrganizationJSON, WebhookEvent } from '@clerk/nextjs/server';
+import type { ClerkEventOf, ClerkEventType } from './clerk-event-routes';
+import type { ClerkEmailData } from './clerk-email-payloads';
+import { getKeyValueStore, type KeyValueStore } from './kv-store';
+import { categoryForWorkflow, notificationCategories } from './notification-preferences';
+
+/** Key of the overrides in the organization's Clerk `private_metadata` */
+export const ORGANIZATION_CONFIG_METADATA_KEY = 'notificationConfig';
+
+/**
+ * The organization as templates see it, under `payload.organization`
+ */
+export interface OrganizationPayload {
+  id: string;
+  name: string;
+  logo_url: string;
+}
+
+export interface OrganizationConfig {
+  organizationId: string;
+  name: string;
+  slug: string;
+  logoUrl: string;
+  senderName?: string;
+  disabledWorkflows: string[];
+}
+
+/**
+ * What a trigger for an organization needs on top of the workflow, subscriber and payload
+ */
+export interface OrganizationScope {
+  /** The org disabled the workflow, so nothing should be sent */
+  disabled: boolean;
+  tenant?: { identifier: string; name?: string };
+  overrides?: Record<string, Record<string, unknown>>;
+  organization?: OrganizationPayload;
+}
+
+type OrganizationConfigSyncHandlers = {
+  [T in ClerkEventType]?: (event: ClerkEventOf<T>, store: KeyValueStore) => Promise<void>;
+};
+
+function defaultStore(): KeyValueStore {
+  return getKeyValueStore('organization-config');
+}
+
+export async function getOrganizationConfig(
+  organizationId: string,
+  store: KeyValueStore = defaultStore()
+): Promise<OrganizationConfig | undefined> {
+  return store.get<OrganizationConfig>(organizationId);
+}
+
+export async function saveOrganizationConfig(
+  config: OrganizationConfig,
+  store: KeyValueStore = defaultStore()
+): Promise<void> {
+  await store.set(config.organizationId, config);
+}
+
+/**
+ * Builds the config for a Clerk organization, reading overrides from its private metadata
+ */
+export function organizationConfigFromClerk(organization: OrganizationJSON): OrganizationConfig {
+  const overrides = organization.private_metadata?.[ORGANIZATION_CONFIG_METADATA_KEY];
+  const { senderName, disabledWorkflows } =
+    overrides && typeof overrides === 'object' ? (overrides as Record<string, unknown>) : {};
+
+  return {
+    organizationId: organization.id,
+    name: organization.name,
+    slug: organization.slug || '',
+    logoUrl: organization.has_image ? organization.image_url || '' : '',
+    senderName: typeof senderName === 'string' && senderName ? senderName : undefined,
+    disabledWorkflows: Array.isArray(disabledWorkflows)
+      ? disabledWorkflows.filter((id): id is string => typeof id === 'string')
+      : [],
+  };
+}
+
+/**
+ * Reads the organization from Clerk email template data, e.g. for `organization_invitation`
+ */
+export function organizationFromEmailData(emailData: ClerkEmailData): Omit<OrganizationPayload, 'id'> {
+  const org = emailData.org && typeof emailData.org === 'object' ? (emailData.org as Record<string, unknown>) : {};
+  const text = (value: unknown) => (typeof value === 'string' ? value : '');
+  return {
+    name: text(org.name),
+    logo_url: text(org.image_url) || text(org.logo_url),
+  };
+}
+
+/**
+ * Finds the organization a Clerk event belongs to
+ * Session events use the organization that was active when the session was created.
+ */
+export function organizationIdFromClerkEvent(event: WebhookEvent): string | undefined {
+  const data = event.data as {
+    id?: string;
+    object?: string;
+    organization?: { id?: string };
+    organization_id?: string;
+    last_active_organization_id?: string | null;
+  };
+
+  if (data.object === 'organization') {
+    return data.id;
+  }
+  return data.organization?.id || data.organization_id || data.last_active_organization_id || undefined;
+}
+
+/**
+ * Works out the tenant, overrides and payload context for a trigger scoped to an organization
+ * @param workflowId The workflow about to be triggered
+ * @param organizationId The Clerk organization, when the trigger belongs to one
+ */
+export async function resolveOrganizationScope(
+  workflowId: string,
+  organizationId: string | undefined,
+  store: KeyValueStore = defaultStore()
+): Promise<OrganizationScope> {
+  if (!organizationId) {
+    return { disabled: false };
+  }
+
+  const config = await getOrganizationConfig(organizationId, store);
+  if (!config) {
+    // The org hasn't been synced yet, so only its ID is known
+    return { disabled: false, tenant: { identifier: organizationId } };
+  }
+
+  const category = categoryForWorkflow(workflowId);
+  const locked = category !== undefined && notificationCategories[category].locked;
+
+  return {
+    disabled: !locked && config.disabledWorkflows.includes(workflowId),
+    tenant: { identifier: organizationId, name: config.name },
+    overrides: config.senderName ? { email: { senderName: config.senderName } } : undefined,
+    organization: { id: organizationId, name: config.name, logo_url: config.logoUrl },
+  };
+}
+
+export const organizationConfigSyncHandlers: OrganizationConfigSyncHandlers = {
+  'organization.created': async (event, store) => {
+    await saveOrganizationConfig(organizationConfigFromClerk(event.data), store);
+  },
+  'organization.updated': async (event, store) => {
+    await saveOrganizationConfig(organizationConfigFromClerk(event.data), store);
+  },
+  'organization.deleted': async (event, store) => {
+    if (event.data.id) {
+      await store.delete(event.data.id);
+    }
+  },
+};
+
+/**
+ * Keeps the organization config in sync for a Clerk event, if a handler is registered
+ * @param event The verified Clerk webhook event
+ * @returns Whether the event had a config sync handler
+ */
+export async function syncOrganizationConfig(
+  event: WebhookEvent,
+  store: KeyValueStore = defaultStore()
+): Promise<boolean> {
+  const handler = organizationConfigSyncHandlers[event.type] as
+    | ((event: WebhookEvent, store: KeyValueStore) => Promise<void>)
+    | undefined;
+  if (!handler) {
+    return false;
+  }
+
+  await handler(event, store);
+  return true;
+}
@@ -0,0 +1,212 @@
+/**
+ * Durable retry queue and dead-letter store for failed Novu triggers
+ *
+ * A trigger that fails is queued with the error and retried with exponential
+ * backoff and full jitter. After `TRIGGER_MAX_ATTEMPTS` attempts (default 5)
+ * it moves to the dead-letter store, where it can be inspected and replayed.
+ */
+
+import { randomUUID } from 'crypto';
+import { getKeyValueStore, type KeyValueStore } from './kv-store';
+import { notificationTriggerRetries } from './metrics';
+import { triggerMaxAttempts } from './config';
+import type { Subscriber } from './subscriber';
+
+export interface TopicRecipient {
+  type: 'Topic';
+  topicKey: string;
+}
+
+/**
+ * Everything needed to send a workflow trigger again
+ */
+export interface TriggerRequest {
+  workflowId: string;
+  to: Subscriber | TopicRecipient;
+  payload: Record<string, unknown>;
+  /** The Clerk organization the trigger is scoped to, as a Novu tenant */
+  tenant?: { identifier: string; name?: string };
+  /** Per-channel overrides, e.g. the organization's email sender name */
+  overrides?: Record<string, Record<string, unknown>>;
+}
+
+export interface QueuedTrigger extends TriggerRequest {
+  id: string;
+  /** Attempts made so far, including the original trigger */
+  attempts: number;
+  lastError: string;
+  createdAt: string;
+  nextAttemptAt: string;
+}
+
+export type SendTrigger = (request: TriggerRequest) => Promise<void>;
+
+export interface RetryQueueStores {
+  queue: KeyValueStore;
+  deadLetters: KeyValueStore;
+}
+
+export interface RetryRunSummary {
+  succeeded: number;
+  rescheduled: number;
+  deadLettered: number;
+}
+
+const BASE_DELAY_MS = 30 * 1000;
+const MAX_DELAY_MS = 60 * 60 * 1000;
+// Long enough for one attempt, short enough that a crashed worker doesn't block the job
+const LOCK_TTL_SECONDS = 60;
+
+function defaultStores(): RetryQueueStores {
+  return {
+    queue: getKeyValueStore('trigger-retry-queue'),
+    deadLetters: getKeyValueStore('trigger-dead-letters'),
+  };
+}
+
+export function getMaxAttempts(): number {
+  return triggerMaxAttempts();
+}
+
+/**
+ * Returns the delay before the next attempt, using exponential backoff with full jitter
+ * @param attempts Attempts made so far
+ * @param random Source of randomness, replaceable in tests
+ */
+export function backoffDelayMs(attempts: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+  return Math.floor(random() * ceiling);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Queues a trigger whose first attempt failed
+ * @returns The queued job, or the dead letter when retries are disabled
+ */
+export async function enqueueTrigger(
+  request: TriggerRequest,
+  error: unknown,
+  stores: RetryQueueStores = defaultStores()
+): Promise<QueuedTrigger> {
+  const job: QueuedTrigger = {
+    ...request,
+    id: randomUUID(),
+    attempts: 1,
+    lastError: errorMessage(error),
+    createdAt: new Date().toISOString(),
+    nextAttemptAt: new Date(Date.now() + backoffDelayMs(1)).toISOString(),
+  };
+
+  if (job.attempts >= getMaxAttempts()) {
+    await stores.deadLetters.set(job.id, job);
+  } else {
+    await stores.queue.set(`job:${job.id}`, job);
+  }
+  return job;
+}
+
+/**
+ * Retries every queued trigger that is due
+ * @param send Sends a trigger to Novu, throwing on failure
+ */
+export async function processRetryQueue(
+  send: SendTrigger,
+  stores: RetryQueueStores = defaultStores()
+): Promise<RetryRunSummary> {
+  const summary: RetryRunSummary = { succeeded: 0, rescheduled: 0, deadLettered: 0 };
+
+  const isDue = (job: QueuedTrigger | undefined): job is QueuedTrigger =>
+    job !== undefined && new Date(job.nextAttemptAt).getTime() <= Date.now();
+
+  for (const key of await stores.queue.keys('job:')) {
+    const queued = await stores.queue.get<QueuedTrigger>(key);
+    if (!isDue(queued)) {
+      continue;
+    }
+
+    // Skip jobs another worker is already retrying
+    const lock = `lock:${queued.id}`;
+    if (!(await stores.queue.setIfAbsent(lock, true, { ttlSeconds: LOCK_TTL_SECONDS }))) {
+      continue;
+    }
+
+    let job = queued;
+    try {
+      // Another worker may have sent or rescheduled the job between the read and the lock
+      const current = await stores.queue.get<QueuedTrigger>(key);
+      if (!isDue(current)) {
+        continue;
+      }
+      job = current;
+
+      await send(job);
+      await stores.queue.delete(key);
+      summary.succeeded++;
+      notificationTriggerRetries.inc({ workflow: job.workflowId, outcome: 'succeeded' });
+    } catch (error) {
+      const attempts = job.attempts + 1;
+      const updated: QueuedTrigger = {
+        ...job,
+        attempts,
+        lastError: errorMessage(error),
+        nextAttemptAt: new Date(Date.now() + backoffDelayMs(attempts)).toISOString(),
+      };
+
+      if (attempts >= getMaxAttempts()) {
+        await stores.deadLetters.set(job.id, updated);
+        await stores.queue.delete(key);
+        summary.deadLettered++;
+        notificationTriggerRetries.inc({ workflow: job.workflowId, outcome: 'dead_lettered' });
+      } else {
+        await stores.queue.set(key, updated);
+        summary.rescheduled++;
+        notificationTriggerRetries.inc({ workflow: job.workflowId, outcome: 'rescheduled' });
+      }
+    } finally {
+      await stores.queue.delete(lock);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Lists dead-lettered triggers, oldest first
+ */
+export async function listDeadLetters(stores: RetryQueueStores = defaultStores()): Promise<QueuedTrigger[]> {
+  const jobs = await Promise.all(
+    (await stores.deadLetters.keys()).map((key) => stores.deadLetters.get<QueuedTrigger>(key))
+  );
+  return jobs
+    .filter((job): job is QueuedTrigger => job !== undefined)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Sends a dead-lettered trigger again, removing it from the store when it succeeds
+ * @returns False when no dead letter has the ID
+ * @throws The send error, leaving the dead letter in place with the new error
+ */
+export async function replayDeadLetter(
+  id: string,
+  send: SendTrigger,
+  stores: RetryQueueStores = defaultStores()
+): Promise<boolean> {
+  const job = await stores.deadLetters.get<QueuedTrigger>(id);
+  if (!job) {
+    return false;
+  }
+
+  try {
+    await send(job);
+  } catch (error) {
+    await stores.deadLetters.set(id, { ...job, attempts: job.attempts + 1, lastError: errorMessage(error) });
+    throw error;
+  }
+
+  await stores.deadLetters.delete(id);
+  return true;
+}
@@ -0,0 +1,48 @@
+/**
+ * Webhook verification against several signing secrets
+ *
+ * Each source accepts an ordered, comma-separated list of secrets, e.g.
+ * `SIGNING_SECRET=whsec_new,whsec_old`, so a secret can be rotated without
+ * rejecting deliveries signed with the one it replaces. The secret that
+ * verified a delivery is logged by position and fingerprint, never by value:
+ * once nothing matches the old secret any more, it can be removed.
+ */
+
+import { createHash } from 'crypto';
+import type { WebhookSource } from './idempotency';
+import { logger } from './logger';
+
+/**
+ * Identifies a secret in the logs without revealing it
+ */
+export function secretFingerprint(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex').slice(0, 8);
+}
+
+/**
+ * Verifies a delivery with each secret in turn, returning the first result that verifies
+ * @param verify Verifies the delivery with one secret, throwing when it doesn't match
+ * @throws The error from the first secret when none of them verify the delivery
+ */
+export function verifyWithSecrets<T>(source: WebhookSource, secrets: string[], verify: (secret: string) => T): T {
+  let firstError: unknown;
+
+  for (let index = 0; index < secrets.length; index++) {
+    const secret = secrets[index];
+    try {
+      const result = verify(secret);
+      // Field names avoid "secret" so the redacting logger keeps them
+      logger.info('Webhook signature verified', {
+        source,
+        signingKeyIndex: index,
+        signingKeyFingerprint: secretFingerprint(secret),
+        signingKeyCount: secrets.length,
+      });
+      return result;
+    } catch (error) {
+      firstError ??= error;
+    }
+  }
+
+  throw firstError ?? new Error(`No ${source} signing secret is configured`);
+}
@@ -0,0 +1,69 @@
+/**
+ * SMS encoding and length checks for Clerk `sms.created` events
+ *
+ * Messages that only use the GSM 03.38 alphabet are sent as GSM-7, 160
+ * characters per single SMS or 153 per part of a concatenated one. Any other
+ * character switches the whole message to UCS-2, with 70 and 67 characters.
+ */
+
+import { smsMaxSegments } from './config';
+
+export type SmsEncoding = 'GSM-7' | 'UCS-2';
+
+export interface SmsAnalysis {
+  encoding: SmsEncoding;
+  /** Length in encoding units; GSM-7 extension characters count twice */
+  units: number;
+  segments: number;
+}
+
+const GSM_BASIC =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+const GSM_EXTENSION = '^{}\\[~]|€\f';
+
+const LIMITS: Record<SmsEncoding, { single: number; part: number }> = {
+  'GSM-7': { single: 160, part: 153 },
+  'UCS-2': { single: 70, part: 67 },
+};
+
+export function getMaxSmsSegments(): number {
+  return smsMaxSegments();
+}
+
+/**
+ * Works out the encoding, length and number of segments a message is sent as
+ */
+export function analyzeSms(message: string): SmsAnalysis {
+  const characters = Array.from(message);
+  const isGsm = characters.every((char) => GSM_BASIC.includes(char) || GSM_EXTENSION.includes(char));
+
+  const encoding: SmsEncoding = isGsm ? 'GSM-7' : 'UCS-2';
+  const units = isGsm
+    ? characters.reduce((total, char) => total + (GSM_EXTENSION.includes(char) ? 2 : 1), 0)
+    // UCS-2 counts UTF-16 code units, so characters outside the BMP such as emoji count twice
+    : message.length;
+
+  const limits = LIMITS[encoding];
+  const segments = units === 0 ? 0 : units <= limits.single ? 1 : Math.ceil(units / limits.part);
+
+  return { encoding, units, segments };
+}
+
+/**
+ * Checks a message can be sent as an SMS
+ * @param message The SMS text
+ * @param maxSegments Most segments a message may be split into
+ * @returns The problems found, empty when the message is valid
+ */
+export function validateSms(message: string, maxSegments: number = getMaxSmsSegments()): string[] {
+  if (!message.trim()) {
+    return ['SMS message is empty'];
+  }
+
+  const { encoding, units, segments } = analyzeSms(message);
+  if (segments > maxSegments) {
+    return [`SMS message is ${units} ${encoding} characters, ${segments} segments exceeds the limit of ${maxSegments}`];
+  }
+  return [];
+}
@@ -0,0 +1,19 @@
+import Stripe from "stripe";
+import { stripeApiConfig } from "./config";
+
+let client: Stripe | undefined;
+
+/**
+ * Shared Stripe API client for the webhook route and billing helpers, created on first use
+ * so pages and routes that only import Stripe helpers still load when Stripe isn't configured.
+ * Set STRIPE_API_HOST (and optionally STRIPE_API_PORT / STRIPE_API_PROTOCOL)
+ * to test against stripe-mock, e.g. localhost:12111 over http.
+ * @throws ConfigError when STRIPE_SECRET_KEY is missing
+ */
+export function getStripe(): Stripe {
+  if (!client) {
+    const { secretKey, host, port, protocol } = stripeApiConfig();
+    client = new Stripe(secretKey, { host, port, protocol });
+  }
+  return client;
+}
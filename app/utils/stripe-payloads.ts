@@ -0,0 +1,250 @@
+/**
+ * Typed payload builders for Stripe billing events
+ *
+ * Each supported Stripe event type maps to a builder that turns the event
+ * object into the payload sent to its Novu workflow, along with the Stripe
+ * customer the notification is for. Amounts are formatted in the event's
+ * currency and dates are ISO 8601 strings.
+ */
+
+import type Stripe from "stripe";
+
+export type SupportedStripeEventType =
+  | "customer.subscription.created"
+  | "customer.subscription.updated"
+  | "customer.subscription.deleted"
+  | "customer.subscription.trial_will_end"
+  | "invoice.paid"
+  | "invoice.payment_failed"
+  | "invoice.upcoming"
+  | "checkout.session.completed"
+  | "charge.refunded";
+
+export type StripeEventOf<T extends Stripe.Event.Type> = Extract<Stripe.Event, { type: T }>;
+
+export interface SubscriptionPayload {
+  subscription_id: string;
+  status: Stripe.Subscription.Status;
+  plan_name: string;
+  amount: string;
+  interval: string;
+  current_period_start: string;
+  current_period_end: string;
+  cancel_at_period_end: boolean;
+  canceled_at: string | null;
+  trial_end: string | null;
+}
+
+export interface InvoicePayload {
+  invoice_id: string;
+  invoice_number: string;
+  status: string;
+  plan_name: string;
+  amount_due: string;
+  amount_paid: string;
+  amount_remaining: string;
+  period_start: string;
+  period_end: string;
+  due_date: string | null;
+  next_payment_attempt: string | null;
+  attempt_count: number;
+  hosted_invoice_url: string;
+  invoice_pdf: string;
+}
+
+export interface CheckoutSessionPayload {
+  checkout_session_id: string;
+  mode: Stripe.Checkout.Session.Mode;
+  payment_status: Stripe.Checkout.Session.PaymentStatus;
+  amount_total: string;
+  customer_email: string;
+  customer_name: string;
+  subscription_id: string | null;
+  invoice_id: string | null;
+}
+
+export interface RefundPayload {
+  charge_id: string;
+  description: string;
+  amount: string;
+  amount_refunded: string;
+  fully_refunded: boolean;
+  receipt_url: string;
+  invoice_id: string | null;
+}
+
+export interface StripeEventBuilder<T extends SupportedStripeEventType, P> {
+  /** The Stripe customer the notification is sent to */
+  customer: (event: StripeEventOf<T>) => string | null;
+  payload: (event: StripeEventOf<T>) => P;
+}
+
+export type StripePayloadBuilders = {
+  [T in SupportedStripeEventType]: StripeEventBuilder<T, Record<string, unknown>>;
+};
+
+/**
+ * Formats an amount in the currency's smallest unit, e.g. 1999 usd -> "$19.99"
+ * Zero-decimal currencies such as JPY are handled by Intl.
+ */
+export function formatAmount(amount: number | null | undefined, currency: string | null | undefined): string {
+  if (amount === null || amount === undefined || !currency) {
+    return "";
+  }
+
+  const formatter = new Intl.NumberFormat("en-US", { style: "currency", currency: currency.toUpperCase() });
+  const fractionDigits = formatter.resolvedOptions().maximumFractionDigits ?? 2;
+  return formatter.format(amount / 10 ** fractionDigits);
+}
+
+/**
+ * Converts a Stripe Unix timestamp (seconds) to an ISO 8601 string
+ */
+export function formatTimestamp(timestamp: number | null | undefined): string | null {
+  return timestamp ? new Date(timestamp * 1000).toISOString() : null;
+}
+
+/**
+ * Returns the ID of a field Stripe may send either as an ID or as an expanded object
+ */
+export function expandableId(value: string | { id?: string } | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  return typeof value === "string" ? value : value.id ?? null;
+}
+
+/**
+ * Names the plan of a price, preferring its nickname, then its product's name
+ */
+export function planName(price: Stripe.Price | null | undefined): string {
+  if (!price) {
+    return "";
+  }
+  if (price.nickname) {
+    return price.nickname;
+  }
+  if (typeof price.product === "object" && "name" in price.product) {
+    return price.product.name;
+  }
+  return price.lookup_key || "";
+}
+
+function subscriptionPayload(subscription: Stripe.Subscription): SubscriptionPayload {
+  const price = subscription.items.data[0]?.price;
+
+  return {
+    subscription_id: subscription.id,
+    status: subscription.status,
+    plan_name: planName(price),
+    amount: formatAmount(price?.unit_amount, price?.currency),
+    interval: price?.recurring?.interval || "",
+    current_period_start: formatTimestamp(subscription.current_period_start) || "",
+    current_period_end: formatTimestamp(subscription.current_period_end) || "",
+    cancel_at_period_end: subscription.cancel_at_period_end,
+    canceled_at: formatTimestamp(subscription.canceled_at),
+    trial_end: formatTimestamp(subscription.trial_end),
+  };
+}
+
+function invoicePayload(invoice: Stripe.Invoice): InvoicePayload {
+  const line = invoice.lines?.data[0];
+
+  return {
+    invoice_id: invoice.id || "",
+    invoice_number: invoice.number || "",
+    status: invoice.status || "",
+    plan_name: planName(line?.price) || line?.description || "",
+    amount_due: formatAmount(invoice.amount_due, invoice.currency),
+    amount_paid: formatAmount(invoice.amount_paid, invoice.currency),
+    amount_remaining: formatAmount(invoice.amount_remaining, invoice.currency),
+    // Subscription invoices bill the line item's period, the invoice's own period is the previous one
+    period_start: formatTimestamp(line?.period.start ?? invoice.period_start) || "",
+    period_end: formatTimestamp(line?.period.end ?? invoice.period_end) || "",
+    due_date: formatTimestamp(invoice.due_date),
+    next_payment_attempt: formatTimestamp(invoice.next_payment_attempt),
+    attempt_count: invoice.attempt_count,
+    hosted_invoice_url: invoice.hosted_invoice_url || "",
+    invoice_pdf: invoice.invoice_pdf || "",
+  };
+}
+
+function checkoutSessionPayload(session: Stripe.Checkout.Session): CheckoutSessionPayload {
+  return {
+    checkout_session_id: session.id,
+    mode: session.mode,
+    payment_status: session.payment_status,
+    amount_total: formatAmount(session.amount_total, session.currency),
+    customer_email: session.customer_details?.email || session.customer_email || "",
+    customer_name: session.customer_details?.name || "",
+    subscription_id: expandableId(session.subscription),
+    invoice_id: expandableId(session.invoice),
+  };
+}
+
+function refundPayload(charge: Stripe.Charge): RefundPayload {
+  return {
+    charge_id: charge.id,
+    description: charge.description || "",
+    amount: formatAmount(charge.amount, charge.currency),
+    amount_refunded: formatAmount(charge.amount_refunded, charge.currency),
+    fully_refunded: charge.refunded,
+    receipt_url: charge.receipt_url || "",
+    invoice_id: expandableId(charge.invoice),
+  };
+}
+
+export const stripePayloadBuilders: StripePayloadBuilders = {
+  "customer.subscription.created": {
+    customer: (event) => expandableId(event.data.object.customer),
+    payload: (event) => ({ ...subscriptionPayload(event.data.object) }),
+  },
+  "customer.subscription.updated": {
+    customer: (event) => expandableId(event.data.object.customer),
+    payload: (event) => ({ ...subscriptionPayload(event.data.object) }),
+  },
+  "customer.subscription.deleted": {
+    customer: (event) => expandableId(event.data.object.customer),
+    payload: (event) => ({ ...subscriptionPayload(event.data.object) }),
+  },
+  "customer.subscription.trial_will_end": {
+    customer: (event) => expandableId(event.data.object.customer),
+    payload: (event) => ({ ...subscriptionPayload(event.data.object) }),
+  },
+  "invoice.paid": {
+    customer: (event) => expandableId(event.data.object.customer),
+    payload: (event) => ({ ...invoicePayload(event.data.object) }),
+  },
+  "invoice.payment_failed": {
+    customer: (event) => expandableId(event.data.object.customer),
+    payload: (event) => ({ ...invoicePayload(event.data.object) }),
+  },
+  "invoice.upcoming": {
+    customer: (event) => expandableId(event.data.object.customer),
+    payload: (event) => ({ ...invoicePayload(event.data.object) }),
+  },
+  "checkout.session.completed": {
+    customer: (event) => expandableId(event.data.object.customer),
+    payload: (event) => ({ ...checkoutSessionPayload(event.data.object) }),
+  },
+  "charge.refunded": {
+    customer: (event) => expandableId(event.data.object.customer),
+    payload: (event) => ({ ...refundPayload(event.data.object) }),
+  },
+};
+
+export function isSupportedStripeEvent(
+  event: Stripe.Event
+): event is StripeEventOf<SupportedStripeEventType> {
+  return Object.prototype.hasOwnProperty.call(stripePayloadBuilders, event.type);
+}
+
+/**
+ * Looks up the builder for a supported Stripe event
+ */
+export function getStripeEventBuilder(
+  event: StripeEventOf<SupportedStripeEventType>
+): StripeEventBuilder<SupportedStripeEventType, Record<string, unknown>> {
+  // The registry is keyed by event type, so the builder always matches the event's object
+  return stripePayloadBuilders[event.type] as StripeEventBuilder<SupportedStripeEventType, Record<string, unknown>>;
+}
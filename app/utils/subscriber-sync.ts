@@ -0,0 +1,60 @@
+/**
+ * Keeps Novu subscribers in sync with Clerk user lifecycle events
+ */
+
+import type { WebhookEvent } from '@clerk/nextjs/server';
+import { anonymizeSubscriber, removeSubscriber, upsertSubscriber } from '../api/notifications/route';
+import type { ClerkEventOf, ClerkEventType } from './clerk-event-routes';
+import { buildUserSubscriber } from './subscriber';
+import { PRIVATE_METADATA_KEY, parsePreferences, saveStoredPreferences } from './notification-preferences';
+import { deletedSubscriberMode, type DeletedSubscriberMode } from './config';
+
+type SubscriberSyncHandlers = {
+  [T in ClerkEventType]?: (event: ClerkEventOf<T>) => Promise<void>;
+};
+
+/**
+ * Reads the deleted-user handling from `NOVU_DELETED_SUBSCRIBER_MODE`, defaulting to `remove`
+ */
+export function getDeletedSubscriberMode(): DeletedSubscriberMode {
+  return deletedSubscriberMode();
+}
+
+export const subscriberSyncHandlers: SubscriberSyncHandlers = {
+  'user.updated': async (event) => {
+    await upsertSubscriber(buildUserSubscriber(event.data));
+
+    // Pick up preferences changed outside the dashboard, e.g. in the Clerk Dashboard
+    const preferences = event.data.private_metadata?.[PRIVATE_METADATA_KEY];
+    if (preferences) {
+      await saveStoredPreferences(event.data.id, parsePreferences(preferences));
+    }
+  },
+  'user.deleted': async (event) => {
+    const subscriberId = event.data.id;
+    if (!subscriberId) {
+      return;
+    }
+
+    if (getDeletedSubscriberMode() === 'anonymize') {
+      await anonymizeSubscriber(subscriberId);
+    } else {
+      await removeSubscriber(subscriberId);
+    }
+  },
+};
+
+/**
+ * Applies the subscriber sync for a Clerk event, if one is registered
+ * @param event The verified Clerk webhook event
+ * @returns Whether the event had a sync handler
+ */
+export async function syncSubscriber(event: WebhookEvent): Promise<boolean> {
+  const handler = subscriberSyncHandlers[event.type] as ((event: WebhookEvent) => Promise<void>) | undefined;
+  if (!handler) {
+    return false;
+  }
+
+  await handler(event);
+  return true;
+}
@@ -0,0 +1,73 @@
+/**
+ * Subscriber helpers shared by the webhook routes
+ */
+
+import { createHmac } from 'crypto';
+import type { UserJSON } from '@clerk/nextjs/server';
+import { resolveLocale } from './locale';
+import { novuInboxConfig } from './config';
+
+/**
+ * The subscriber shape sent to Novu with every workflow trigger
+ */
+export interface Subscriber {
+  subscriberId: string;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  phone?: string;
+  locale?: string;
+  avatar?: string;
+  data?: Record<string, string>;
+}
+
+/**
+ * Returns the `Accept-Language` header the sign-up page stored in the user's unsafe metadata
+ */
+function acceptLanguageAtSignUp(user: UserJSON): string | null {
+  const value = user.unsafe_metadata?.acceptLanguage;
+  return typeof value === 'string' ? value : null;
+}
+
+/**
+ * Builds a Novu subscriber from a Clerk user, relying only on webhook event data
+ * @param user The user object from a Clerk `user.*` event
+ * @returns The subscriber keyed by the Clerk user ID
+ */
+export function buildUserSubscriber(user: UserJSON): Subscriber {
+  // Get the user from Clerk (Optional)
+  // const user = await clerkClient.users.getUser(data.id);
+
+  return {
+    subscriberId: user.id, // Required field
+    firstName: user.first_name || '',
+    lastName: user.last_name || '',
+    email: user.email_addresses?.[0]?.email_address || '',
+    phone: user.phone_numbers?.[0]?.phone_number || '',
+    locale: resolveLocale({
+      clerkLocale: user.public_metadata?.locale,
+      acceptLanguage: acceptLanguageAtSignUp(user),
+    }),
+    avatar: user.image_url || '',
+    data: {
+      username: user.username || '',
+      clerkUserId: user.id || '',
+    },
+  };
+}
+
+/**
+ * Computes the HMAC the Novu Inbox sends to prove the subscriber ID wasn't tampered with
+ * @param subscriberId The subscriber the Inbox is rendered for
+ * @param secretKey The Novu secret key, defaults to NOVU_SECRET_KEY
+ * @returns The hex-encoded hash, or undefined when no secret is configured
+ */
+export function computeSubscriberHash(
+  subscriberId: string,
+  secretKey: string | undefined = novuInboxConfig().secretKey
+): string | undefined {
+  if (!secretKey) {
+    return undefined;
+  }
+  return createHmac('sha256', secretKey).update(subscriberId).digest('hex');
+}
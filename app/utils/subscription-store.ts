@@ -0,0 +1,118 @@
+/**
+ * Normalized Stripe subscription state, kept in the KV store by `syncStripeDataToKV`
+ *
+ * The app reads billing state from here instead of calling Stripe on every
+ * page load. Records are keyed by Stripe customer ID.
+ */
+
+import type Stripe from "stripe";
+import { getKeyValueStore, type KeyValueStore } from "./kv-store";
+import { getCustomerIdForUser } from "./identity-links";
+
+export interface PaymentMethodSummary {
+  /** Stripe payment method type, e.g. `card` or `sepa_debit` */
+  type: string;
+  brand: string | null;
+  last4: string | null;
+  expMonth: number | null;
+  expYear: number | null;
+}
+
+export interface InvoiceSummary {
+  id: string;
+  number: string | null;
+  status: string | null;
+  /** Total in the currency's smallest unit */
+  total: number;
+  currency: string;
+  /** Unix timestamp in seconds */
+  created: number;
+  hostedInvoiceUrl: string | null;
+}
+
+export interface ActiveSubscriptionState {
+  status: Stripe.Subscription.Status;
+  customerId: string;
+  subscriptionId: string;
+  priceId: string;
+  planName: string;
+  /** Price in the currency's smallest unit */
+  unitAmount: number | null;
+  currency: string;
+  interval: string | null;
+  /** Unix timestamps in seconds, as returned by Stripe */
+  currentPeriodStart: number;
+  currentPeriodEnd: number;
+  cancelAtPeriodEnd: boolean;
+  paymentMethod: PaymentMethodSummary | null;
+  /** Most recent invoices first */
+  recentInvoices: InvoiceSummary[];
+  syncedAt: string;
+}
+
+export interface NoSubscriptionState {
+  status: "none";
+  customerId: string;
+  recentInvoices: InvoiceSummary[];
+  syncedAt: string;
+}
+
+export type SubscriptionState = ActiveSubscriptionState | NoSubscriptionState;
+
+/**
+ * Stripe events after which the customer's subscription state may have changed
+ */
+export const SUBSCRIPTION_SYNC_EVENTS: readonly string[] = [
+  "checkout.session.completed",
+  "customer.subscription.created",
+  "customer.subscription.updated",
+  "customer.subscription.deleted",
+  "customer.subscription.paused",
+  "customer.subscription.resumed",
+  "customer.subscription.pending_update_applied",
+  "customer.subscription.pending_update_expired",
+  "customer.subscription.trial_will_end",
+  "invoice.paid",
+  "invoice.payment_failed",
+  "invoice.payment_action_required",
+  "invoice.upcoming",
+  "invoice.marked_uncollectible",
+  "invoice.payment_succeeded",
+  "payment_intent.succeeded",
+  "payment_intent.payment_failed",
+  "payment_intent.canceled",
+];
+
+function defaultStore(): KeyValueStore {
+  return getKeyValueStore("stripe-subscriptions");
+}
+
+export async function saveSubscriptionState(
+  state: SubscriptionState,
+  store: KeyValueStore = defaultStore()
+): Promise<void> {
+  await store.set(`customer:${state.customerId}`, state);
+}
+
+/**
+ * Reads the synced subscription state of a Stripe customer
+ * @returns The state, or undefined when the customer was never synced
+ */
+export async function getSubscriptionState(
+  customerId: string,
+  store: KeyValueStore = defaultStore()
+): Promise<SubscriptionState | undefined> {
+  return store.get<SubscriptionState>(`customer:${customerId}`);
+}
+
+/**
+ * Reads the synced subscription state of the Stripe customer linked to a Clerk user
+ * @returns The state, or undefined when the user has no linked or synced customer
+ */
+export async function getSubscriptionStateForUser(
+  clerkUserId: string,
+  store: KeyValueStore = defaultStore()
+): Promise<SubscriptionState | undefined> {
+  const customerId = await getCustomerIdForUser(clerkUserId);
+  return customerId ? getSubscriptionState(customerId, store) : undefined;
+}
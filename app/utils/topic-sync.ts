@@ -0,0 +1,68 @@
+/**
+ * Keeps one Novu topic per Clerk organization, with the organization's members as its subscribers
+ *
+ * Org-wide announcements can then be sent with a single `triggerTopicWorkflow`
+ * call using `organizationTopicKey(orgId)` instead of looping over members.
+ */
+
+import type { WebhookEvent } from '@clerk/nextjs/server';
+import {
+  addTopicSubscribers,
+  createTopic,
+  deleteTopic,
+  removeTopicSubscribers,
+  renameTopic,
+} from '../api/notifications/route';
+import type { ClerkEventOf, ClerkEventType } from './clerk-event-routes';
+
+type TopicSyncHandlers = {
+  [T in ClerkEventType]?: (event: ClerkEventOf<T>) => Promise<void>;
+};
+
+/**
+ * Returns the Novu topic key for a Clerk organization
+ * @param organizationId The Clerk organization ID, e.g. `org_2abc`
+ */
+export function organizationTopicKey(organizationId: string): string {
+  return `organization-${organizationId}`;
+}
+
+export const topicSyncHandlers: TopicSyncHandlers = {
+  'organization.created': async (event) => {
+    await createTopic(organizationTopicKey(event.data.id), event.data.name);
+  },
+  'organization.updated': async (event) => {
+    await renameTopic(organizationTopicKey(event.data.id), event.data.name);
+  },
+  'organization.deleted': async (event) => {
+    if (!event.data.id) {
+      return;
+    }
+    await deleteTopic(organizationTopicKey(event.data.id));
+  },
+  'organizationMembership.created': async (event) => {
+    await addTopicSubscribers(organizationTopicKey(event.data.organization.id), [
+      event.data.public_user_data.user_id,
+    ]);
+  },
+  'organizationMembership.deleted': async (event) => {
+    await removeTopicSubscribers(organizationTopicKey(event.data.organization.id), [
+      event.data.public_user_data.user_id,
+    ]);
+  },
+};
+
+/**
+ * Applies the organization topic sync for a Clerk event, if one is registered
+ * @param event The verified Clerk webhook event
+ * @returns Whether the event had a topic sync handler
+ */
+export async function syncOrganizationTopic(event: WebhookEvent): Promise<boolean> {
+  const handler = topicSyncHandlers[event.type] as ((event: WebhookEvent) => Promise<void>) | undefined;
+  if (!handler) {
+    return false;
+  }
+
+  await handler(event);
+  return true;
+}
@@ -2,6 +2,18 @@
  * Utility functions for webhook handling
  */
 
+import { timingSafeEqual } from "crypto";
+import type Stripe from "stripe";
+import { getStripe } from "./stripe-client";
+import { planName } from "./stripe-payloads";
+import { logger } from "./logger";
+import {
+  saveSubscriptionState,
+  type InvoiceSummary,
+  type PaymentMethodSummary,
+  type SubscriptionState,
+} from "./subscription-store";
+
 /**
  * A utility function to handle promises and catch errors
  * @param promise The promise to handle
@@ -25,21 +37,110 @@ export function waitUntil(promise: Promise<any>): void {
   // In a real Next.js environment, this would use the actual waitUntil function
   // For now, we'll just let the promise run in the background
   promise.catch((error) => {
-    console.error("Background task error:", error);
+    logger.error("Background task error", { error });
   });
 }
 
 /**
  * Syncs Stripe customer data to KV store
+ * Fetches the customer's latest subscription with its price and payment method,
+ * plus their recent invoices, and stores it as a normalized record, readable with `getSubscriptionState`
  * @param customerId The Stripe customer ID
+ * @throws When Stripe or the KV store fails, so the webhook delivery is retried
  */
-export async function syncStripeDataToKV(customerId: string): Promise<void> {
+export async function syncStripeDataToKV(customerId: string): Promise<SubscriptionState> {
   try {
-    console.log(`Syncing Stripe data for customer: ${customerId}`);
-    // In a real implementation, this would fetch data from Stripe and store it in KV
-    // For now, we'll just log the customer ID
-    console.log(`Successfully synced Stripe data for customer: ${customerId}`);
+    logger.info("Syncing Stripe data for customer", { customerId });
+
+    const subscriptions = await getStripe().subscriptions.list({
+      customer: customerId,
+      limit: 1,
+      status: "all",
+      expand: ["data.default_payment_method", "data.items.data.price.product"],
+    });
+
+    const invoices = await getStripe().invoices.list({ customer: customerId, limit: RECENT_INVOICE_COUNT });
+    const recentInvoices = invoices.data.map(summarizeInvoice);
+
+    const subscription = subscriptions.data[0];
+    if (!subscription) {
+      const state: SubscriptionState = { status: "none", customerId, recentInvoices, syncedAt: new Date().toISOString() };
+      await saveSubscriptionState(state);
+      return state;
+    }
+
+    const price = subscription.items.data[0]?.price;
+    const state: SubscriptionState = {
+      status: subscription.status,
+      customerId,
+      subscriptionId: subscription.id,
+      priceId: price?.id || "",
+      planName: planName(price),
+      unitAmount: price?.unit_amount ?? null,
+      currency: price?.currency || "",
+      interval: price?.recurring?.interval ?? null,
+      currentPeriodStart: subscription.current_period_start,
+      currentPeriodEnd: subscription.current_period_end,
+      cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      paymentMethod: summarizePaymentMethod(subscription.default_payment_method),
+      recentInvoices,
+      syncedAt: new Date().toISOString(),
+    };
+    await saveSubscriptionState(state);
+
+    logger.info("Successfully synced Stripe data for customer", { customerId });
+    return state;
   } catch (error) {
-    console.error(`Error syncing Stripe data for customer ${customerId}:`, error);
+    logger.error("Error syncing Stripe data for customer", { customerId, error });
+    throw error;
   }
-} 
\ No newline at end of file
+}
+
+const RECENT_INVOICE_COUNT = 5;
+
+function summarizeInvoice(invoice: Stripe.Invoice): InvoiceSummary {
+  return {
+    id: invoice.id || "",
+    number: invoice.number,
+    status: invoice.status,
+    total: invoice.total,
+    currency: invoice.currency,
+    created: invoice.created,
+    hostedInvoiceUrl: invoice.hosted_invoice_url ?? null,
+  };
+}
+
+function summarizePaymentMethod(
+  paymentMethod: string | Stripe.PaymentMethod | null
+): PaymentMethodSummary | null {
+  // Only expanded payment methods carry details
+  if (!paymentMethod || typeof paymentMethod === "string") {
+    return null;
+  }
+
+  return {
+    type: paymentMethod.type,
+    brand: paymentMethod.card?.brand ?? null,
+    last4: paymentMethod.card?.last4 ?? paymentMethod.sepa_debit?.last4 ?? paymentMethod.us_bank_account?.last4 ?? null,
+    expMonth: paymentMethod.card?.exp_month ?? null,
+    expYear: paymentMethod.card?.exp_year ?? null,
+  };
+}
+
+/**
+ * Checks the request's `Authorization: Bearer <token>` header against the expected token
+ * Always fails when no token is configured, so unconfigured endpoints stay closed
+ * @param request The incoming request
+ * @param expectedToken The configured token, e.g. from process.env
+ */
+export function hasBearerToken(request: Request, expectedToken: string | undefined): boolean {
+  if (!expectedToken) {
+    return false;
+  }
+
+  const header = request.headers.get("authorization") || "";
+  const provided = Buffer.from(header.replace(/^Bearer\s+/i, ""));
+  const expected = Buffer.from(expectedToken);
+
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
@@ -0,0 +1,151 @@
+/**
+ * Signature verification over the exact bytes Clerk (Svix) and Stripe signed
+ *
+ * Both routes pass the raw request body here, never a parsed and re-serialized
+ * copy, since any difference in whitespace or key order breaks the signature.
+ * The signed timestamp must be within `WEBHOOK_TOLERANCE_SECONDS` (default 300)
+ * of the server clock in either direction, so a captured delivery can't be
+ * replayed later and a future-dated one can't extend its own window.
+ * Every rejection is a `WebhookVerificationError` with a code the routes return.
+ */
+
+import { timingSafeEqual } from 'crypto';
+import Stripe from 'stripe';
+import { Webhook } from 'svix';
+import type { WebhookSource } from './idempotency';
+import { verifyWithSecrets } from './signing-secrets';
+
+export type VerificationErrorCode =
+  | 'missing_headers'
+  | 'invalid_signature'
+  | 'expired_timestamp'
+  | 'future_timestamp'
+  | 'invalid_payload';
+
+export class WebhookVerificationError extends Error {
+  constructor(readonly code: VerificationErrorCode, message: string) {
+    super(message);
+    this.name = 'WebhookVerificationError';
+  }
+}
+
+export interface VerificationOptions {
+  /** Accepted signing secrets, newest first */
+  secrets: string[];
+  /** How far the signed timestamp may be from now, in seconds */
+  toleranceSeconds: number;
+  /** The current time, replaceable in tests */
+  now?: Date;
+}
+
+export interface SvixHeaders {
+  id: string;
+  timestamp: string;
+  signature: string;
+}
+
+/**
+ * Reads the Svix headers Clerk signs deliveries with
+ * @throws WebhookVerificationError with `missing_headers` when any of them is missing
+ */
+export function svixHeaders(headers: Headers): SvixHeaders {
+  const id = headers.get('svix-id');
+  const timestamp = headers.get('svix-timestamp');
+  const signature = headers.get('svix-signature');
+
+  if (!id || !timestamp || !signature) {
+    throw new WebhookVerificationError('missing_headers', 'Missing Svix headers');
+  }
+  return { id, timestamp, signature };
+}
+
+/**
+ * Rejects a signed timestamp outside the tolerance, in either direction
+ * @param timestamp Unix time in seconds, as sent in the signature headers
+ */
+export function checkTimestamp(source: WebhookSource, timestamp: number, toleranceSeconds: number, now = new Date()): void {
+  if (!Number.isInteger(timestamp)) {
+    throw new WebhookVerificationError('invalid_signature', `Invalid ${source} signature timestamp`);
+  }
+
+  const ageSeconds = Math.floor(now.getTime() / 1000) - timestamp;
+  if (ageSeconds > toleranceSeconds) {
+    throw new WebhookVerificationError(
+      'expired_timestamp',
+      `Webhook timestamp is ${ageSeconds}s old, more than the ${toleranceSeconds}s tolerance`
+    );
+  }
+  if (-ageSeconds > toleranceSeconds) {
+    throw new WebhookVerificationError(
+      'future_timestamp',
+      `Webhook timestamp is ${-ageSeconds}s in the future, more than the ${toleranceSeconds}s tolerance`
+    );
+  }
+}
+
+function signaturesMatch(provided: string, expected: string): boolean {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Verifies a Clerk delivery and parses its event
+ * @param body The raw request body
+ */
+export function verifySvixWebhook<T>(body: string, headers: SvixHeaders, options: VerificationOptions): T {
+  const timestamp = Number(headers.timestamp);
+  checkTimestamp('clerk', timestamp, options.toleranceSeconds, options.now);
+
+  verifyWithSecrets('clerk', options.secrets, (secret) => {
+    // svix checks the timestamp against a fixed 5 minutes in `verify`, so only its signing is used
+    const [, expected] = new Webhook(secret).sign(headers.id, new Date(timestamp * 1000), body).split(',');
+    const matches = headers.signature.split(' ').some((versioned) => {
+      const [version, signature] = versioned.split(',');
+      return version === 'v1' && signature !== undefined && signaturesMatch(signature, expected);
+    });
+    if (!matches) {
+      throw new WebhookVerificationError('invalid_signature', 'No matching signature found');
+    }
+  });
+
+  try {
+    return JSON.parse(body) as T;
+  } catch {
+    throw new WebhookVerificationError('invalid_payload', 'Webhook body is not valid JSON');
+  }
+}
+
+/**
+ * Verifies a Stripe delivery and parses its event
+ * @param body The raw request body
+ * @param signatureHeader The `Stripe-Signature` header
+ */
+export function verifyStripeWebhook(
+  body: string,
+  signatureHeader: string | null,
+  options: VerificationOptions
+): Stripe.Event {
+  if (!signatureHeader) {
+    throw new WebhookVerificationError('missing_headers', 'Missing Stripe-Signature header');
+  }
+  const timestamp = signatureHeader
+    .split(',')
+    .map((item) => item.trim().split('='))
+    .find(([key]) => key === 't')?.[1];
+  checkTimestamp('stripe', Number(timestamp), options.toleranceSeconds, options.now);
+
+  const receivedAt = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  return verifyWithSecrets('stripe', options.secrets, (secret) => {
+    try {
+      return Stripe.webhooks.constructEvent(body, signatureHeader, secret, options.toleranceSeconds, undefined, receivedAt);
+    } catch (error) {
+      // Stripe parses the body only once the signature matches
+      if (error instanceof SyntaxError) {
+        throw new WebhookVerificationError('invalid_payload', 'Webhook body is not valid JSON');
+      }
+      // The timestamp is already checked, so anything else Stripe rejects is the signature
+      throw new WebhookVerificationError('invalid_signature', error instanceof Error ? error.message : String(error));
+    }
+  });
+}
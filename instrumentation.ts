@@ -0,0 +1,23 @@
+/**
+ * Runs once when the server starts: reports missing or invalid configuration
+ * in the logs right away, instead of on the first webhook that fails.
+ */
+export async function register() {
+  // The logger needs Node.js APIs that the edge runtime lacks
+  if (process.env.NEXT_RUNTIME !== "nodejs") {
+    return;
+  }
+
+  const { validateConfig } = await import("./app/utils/config");
+  const { logger } = await import("./app/utils/logger");
+  const report = validateConfig();
+
+  for (const problem of report.problems) {
+    logger.error(problem.message, { variable: problem.variable });
+  }
+  for (const [source, { configured, missing }] of Object.entries(report.sources)) {
+    if (!configured) {
+      logger.warn(`The ${source} webhook is not configured and will reject every delivery`, { missing });
+    }
+  }
+}
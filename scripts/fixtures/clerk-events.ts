@@ -0,0 +1,246 @@
+/**
+ * Realistic Clerk webhook events for the simulator and tests
+ *
+ * There is a fixture for every Clerk event type the app handles, one
+ * `email.created` fixture per email slug with a payload builder, and one
+ * `sms.created` fixture per SMS slug, plus `organizationInvitation.created`,
+ * which no route handles. Keys are the event type, followed by `:<slug>` for
+ * email and SMS events, e.g. `email.created:verification_code`.
+ */
+
+import type { WebhookEvent } from '@clerk/nextjs/server';
+import { emailPayloadBuilders } from '../../app/utils/clerk-email-payloads';
+
+export const FIXTURE_USER_ID = 'user_2sImuLaTeDuSeR00000000000';
+export const FIXTURE_ORGANIZATION_ID = 'org_2sImuLaTeDoRg000000000000';
+export const FIXTURE_EMAIL = 'ada.lovelace@example.com';
+export const FIXTURE_PHONE = '+15555550100';
+
+// A fixed clock keeps fixtures, and the snapshots built from them, stable
+const CREATED_AT = Date.UTC(2025, 0, 15, 9, 30);
+
+const APP = { name: 'Acme', url: 'https://acme.example.com' };
+
+const REQUEST_CONTEXT = {
+  requested_by: 'Chrome, Mac OS X',
+  requested_from: 'Athens, GR',
+  requested_at: '15 January 2025, 09:30 UTC',
+};
+
+function clerkEvent(type: string, data: Record<string, unknown>): WebhookEvent {
+  return {
+    data,
+    object: 'event',
+    type,
+    timestamp: CREATED_AT,
+    instance_id: 'ins_2sImuLaTeDiNsTaNcE00000000',
+  } as unknown as WebhookEvent;
+}
+
+function user() {
+  return {
+    id: FIXTURE_USER_ID,
+    object: 'user',
+    username: 'ada',
+    first_name: 'Ada',
+    last_name: 'Lovelace',
+    image_url: 'https://img.clerk.com/ada.png',
+    has_image: true,
+    primary_email_address_id: 'idn_2sImuLaTeDeMaIl000000000',
+    primary_phone_number_id: 'idn_2sImuLaTeDpHoNe000000000',
+    email_addresses: [
+      {
+        id: 'idn_2sImuLaTeDeMaIl000000000',
+        object: 'email_address',
+        email_address: FIXTURE_EMAIL,
+        verification: { status: 'verified', strategy: 'email_code' },
+        linked_to: [],
+      },
+    ],
+    phone_numbers: [
+      {
+        id: 'idn_2sImuLaTeDpHoNe000000000',
+        object: 'phone_number',
+        phone_number: FIXTURE_PHONE,
+        verification: { status: 'verified', strategy: 'phone_code' },
+        linked_to: [],
+      },
+    ],
+    external_accounts: [],
+    public_metadata: {},
+    private_metadata: {},
+    unsafe_metadata: { acceptLanguage: 'en-GB,en;q=0.9' },
+    created_at: CREATED_AT,
+    updated_at: CREATED_AT,
+    last_sign_in_at: CREATED_AT,
+  };
+}
+
+function organization() {
+  return {
+    id: FIXTURE_ORGANIZATION_ID,
+    object: 'organization',
+    name: 'Analytical Engines',
+    slug: 'analytical-engines',
+    image_url: 'https://img.clerk.com/analytical-engines.png',
+    has_image: true,
+    max_allowed_memberships: 5,
+    admin_delete_enabled: true,
+    public_metadata: {},
+    private_metadata: {},
+    created_by: FIXTURE_USER_ID,
+    created_at: CREATED_AT,
+    updated_at: CREATED_AT,
+  };
+}
+
+function membership() {
+  return {
+    id: 'orgmem_2sImuLaTeDmEmBeR000000',
+    object: 'organization_membership',
+    role: 'org:member',
+    organization: organization(),
+    public_user_data: {
+      user_id: FIXTURE_USER_ID,
+      first_name: 'Ada',
+      last_name: 'Lovelace',
+      identifier: FIXTURE_EMAIL,
+      image_url: 'https://img.clerk.com/ada.png',
+      has_image: true,
+    },
+    public_metadata: {},
+    private_metadata: {},
+    created_at: CREATED_AT,
+    updated_at: CREATED_AT,
+  };
+}
+
+/**
+ * Template data Clerk sends for each email slug, on top of the subject, app and request context
+ */
+const EMAIL_TEMPLATE_DATA: Record<string, Record<string, unknown>> = {
+  verification_code: { otp_code: '123456' },
+  affiliation_code: { otp_code: '654321' },
+  password_changed: { greeting_name: 'Ada', primary_email_address: FIXTURE_EMAIL },
+  password_removed: { greeting_name: 'Ada', primary_email_address: FIXTURE_EMAIL },
+  magic_link_sign_in: { magic_link: `${APP.url}/v1/verify?token=simulated`, ttl_minutes: '10' },
+  magic_link_sign_up: { magic_link: `${APP.url}/v1/verify?token=simulated`, ttl_minutes: '10' },
+  magic_link_verify_email: { magic_link: `${APP.url}/v1/verify?token=simulated`, ttl_minutes: '10' },
+  reset_password_code: { otp_code: '246810' },
+  organization_invitation: {
+    inviter_name: 'Charles Babbage',
+    org: { name: 'Analytical Engines', image_url: 'https://img.clerk.com/analytical-engines.png' },
+    action_url: `${APP.url}/accept-invitation?token=simulated`,
+  },
+  invitation: { action_url: `${APP.url}/accept-invitation?token=simulated` },
+  new_sign_in: {
+    greeting_name: 'Ada',
+    sign_in_method: 'Email code',
+    revoke_session_url: `${APP.url}/user/security`,
+    support_email: 'support@acme.example.com',
+  },
+  passkey_added: { greeting_name: 'Ada', passkey_name: 'MacBook Touch ID', primary_email_address: FIXTURE_EMAIL },
+  primary_email_address_changed: {
+    greeting_name: 'Ada',
+    new_email_address: 'ada@analytical-engines.example.com',
+    primary_email_address: FIXTURE_EMAIL,
+  },
+  waitlist_confirmation: { action_url: APP.url },
+  waitlist_invitation: { action_url: `${APP.url}/sign-up?token=simulated` },
+};
+
+function emailCreated(slug: string): WebhookEvent {
+  const subject = `${slug.replace(/_/g, ' ')} for ${APP.name}`;
+  return clerkEvent('email.created', {
+    id: 'ema_2sImuLaTeDeMaIlMeSsAgE000',
+    object: 'email',
+    slug,
+    subject,
+    from_email_name: 'notifications',
+    to_email_address: FIXTURE_EMAIL,
+    email_address_id: 'idn_2sImuLaTeDeMaIl000000000',
+    user_id: FIXTURE_USER_ID,
+    body: '<p>Simulated email</p>',
+    body_plain: 'Simulated email',
+    status: 'queued',
+    delivered_by_clerk: false,
+    data: { subject, app: APP, ...REQUEST_CONTEXT, ...EMAIL_TEMPLATE_DATA[slug] },
+  });
+}
+
+const SMS_MESSAGES: Record<string, { message: string; data: Record<string, unknown> }> = {
+  verification_code: { message: '123456 is your Acme verification code.', data: { otp_code: '123456', app: APP } },
+  reset_password_code: { message: '246810 is your Acme password reset code.', data: { otp_code: '246810', app: APP } },
+};
+
+function smsCreated(slug: string): WebhookEvent {
+  const { message, data } = SMS_MESSAGES[slug];
+  return clerkEvent('sms.created', {
+    id: 'sms_2sImuLaTeDsMs000000000000',
+    object: 'sms_message',
+    slug,
+    message,
+    from_phone_number: '+15555550199',
+    to_phone_number: FIXTURE_PHONE,
+    phone_number_id: 'idn_2sImuLaTeDpHoNe000000000',
+    user_id: FIXTURE_USER_ID,
+    status: 'queued',
+    delivered_by_clerk: false,
+    data,
+  });
+}
+
+export const clerkFixtures: Record<string, () => WebhookEvent> = {
+  'user.created': () => clerkEvent('user.created', user()),
+  'user.updated': () => clerkEvent('user.updated', { ...user(), first_name: 'Augusta Ada' }),
+  'user.deleted': () => clerkEvent('user.deleted', { id: FIXTURE_USER_ID, object: 'user', deleted: true }),
+  'session.created': () =>
+    clerkEvent('session.created', {
+      id: 'sess_2sImuLaTeDsEsSiOn00000000',
+      object: 'session',
+      user_id: FIXTURE_USER_ID,
+      client_id: 'client_2sImuLaTeDcLiEnT00000000',
+      status: 'active',
+      last_active_organization_id: FIXTURE_ORGANIZATION_ID,
+      last_active_at: CREATED_AT,
+      expire_at: CREATED_AT + 7 * 24 * 60 * 60 * 1000,
+      abandon_at: CREATED_AT + 30 * 24 * 60 * 60 * 1000,
+      created_at: CREATED_AT,
+      updated_at: CREATED_AT,
+      latest_activity: {
+        id: 'sess_activity_2sImuLaTeD000000',
+        object: 'session_activity',
+        browser_name: 'Chrome',
+        browser_version: '131.0.0.0',
+        device_type: 'Macintosh',
+        is_mobile: false,
+        ip_address: '203.0.113.10',
+        city: 'Athens',
+        country: 'GR',
+      },
+    }),
+  'organization.created': () => clerkEvent('organization.created', organization()),
+  'organization.updated': () =>
+    clerkEvent('organization.updated', { ...organization(), name: 'Analytical Engines Ltd' }),
+  'organization.deleted': () =>
+    clerkEvent('organization.deleted', { id: FIXTURE_ORGANIZATION_ID, object: 'organization', deleted: true }),
+  'organizationMembership.created': () => clerkEvent('organizationMembership.created', membership()),
+  'organizationMembership.deleted': () => clerkEvent('organizationMembership.deleted', membership()),
+  'organizationInvitation.created': () =>
+    clerkEvent('organizationInvitation.created', {
+      id: 'orginv_2sImuLaTeDiNvItE000000',
+      object: 'organization_invitation',
+      email_address: 'charles.babbage@example.com',
+      role: 'org:member',
+      organization_id: FIXTURE_ORGANIZATION_ID,
+      status: 'pending',
+      public_metadata: {},
+      private_metadata: {},
+      created_at: CREATED_AT,
+      updated_at: CREATED_AT,
+    }),
+  ...Object.fromEntries(
+    Object.keys(emailPayloadBuilders).map((slug) => [`email.created:${slug}`, () => emailCreated(slug)])
+  ),
+  ...Object.fromEntries(Object.keys(SMS_MESSAGES).map((slug) => [`sms.created:${slug}`, () => smsCreated(slug)])),
+};
@@ -0,0 +1,179 @@
+/**
+ * Realistic Stripe webhook events for the simulator and tests
+ *
+ * There is a fixture for every Stripe event type with a payload builder, plus
+ * `customer.created`, which the app doesn't notify on. Every event belongs to
+ * the same customer, `FIXTURE_CUSTOMER_ID`.
+ */
+
+import type Stripe from "stripe";
+import { FIXTURE_EMAIL } from "./clerk-events";
+
+export const FIXTURE_CUSTOMER_ID = "cus_SimulatedCustomer0";
+export const FIXTURE_SUBSCRIPTION_ID = "sub_SimulatedSubscription0";
+export const FIXTURE_INVOICE_ID = "in_SimulatedInvoice0";
+
+// 15 January 2025 09:30 UTC, in seconds as Stripe sends it
+const CREATED = 1736933400;
+const MONTH = 30 * 24 * 60 * 60;
+
+function stripeEvent(type: string, object: object): Stripe.Event {
+  return {
+    id: `evt_Simulated_${type.replace(/\W/g, "_")}`,
+    object: "event",
+    api_version: "2025-02-24.acacia",
+    created: CREATED,
+    data: { object },
+    livemode: false,
+    pending_webhooks: 1,
+    request: { id: null, idempotency_key: null },
+    type,
+  } as unknown as Stripe.Event;
+}
+
+function price() {
+  return {
+    id: "price_SimulatedPro0",
+    object: "price",
+    active: true,
+    currency: "usd",
+    nickname: "Pro",
+    product: "prod_SimulatedPro0",
+    recurring: { interval: "month", interval_count: 1, usage_type: "licensed" },
+    type: "recurring",
+    unit_amount: 1999,
+    lookup_key: "pro_monthly",
+  };
+}
+
+function subscription(overrides: Record<string, unknown> = {}) {
+  return {
+    id: FIXTURE_SUBSCRIPTION_ID,
+    object: "subscription",
+    customer: FIXTURE_CUSTOMER_ID,
+    status: "active",
+    cancel_at_period_end: false,
+    canceled_at: null,
+    trial_end: null,
+    current_period_start: CREATED,
+    current_period_end: CREATED + MONTH,
+    created: CREATED,
+    currency: "usd",
+    items: {
+      object: "list",
+      data: [{ id: "si_SimulatedItem0", object: "subscription_item", price: price(), quantity: 1 }],
+      has_more: false,
+    },
+    metadata: {},
+    ...overrides,
+  };
+}
+
+function invoice(overrides: Record<string, unknown> = {}) {
+  return {
+    id: FIXTURE_INVOICE_ID,
+    object: "invoice",
+    customer: FIXTURE_CUSTOMER_ID,
+    customer_email: FIXTURE_EMAIL,
+    subscription: FIXTURE_SUBSCRIPTION_ID,
+    number: "SIM-0001",
+    status: "paid",
+    currency: "usd",
+    amount_due: 1999,
+    amount_paid: 1999,
+    amount_remaining: 0,
+    attempt_count: 1,
+    due_date: null,
+    next_payment_attempt: null,
+    period_start: CREATED - MONTH,
+    period_end: CREATED,
+    hosted_invoice_url: "https://invoice.stripe.com/i/simulated",
+    invoice_pdf: "https://pay.stripe.com/invoice/simulated/pdf",
+    created: CREATED,
+    lines: {
+      object: "list",
+      data: [
+        {
+          id: "il_SimulatedLine0",
+          object: "line_item",
+          description: "1 × Pro (at $19.99 / month)",
+          period: { start: CREATED, end: CREATED + MONTH },
+          price: price(),
+        },
+      ],
+      has_more: false,
+    },
+    ...overrides,
+  };
+}
+
+export const stripeFixtures: Record<string, () => Stripe.Event> = {
+  "customer.subscription.created": () => stripeEvent("customer.subscription.created", subscription()),
+  "customer.subscription.updated": () =>
+    stripeEvent("customer.subscription.updated", subscription({ cancel_at_period_end: true })),
+  "customer.subscription.deleted": () =>
+    stripeEvent("customer.subscription.deleted", subscription({ status: "canceled", canceled_at: CREATED })),
+  "customer.subscription.trial_will_end": () =>
+    stripeEvent(
+      "customer.subscription.trial_will_end",
+      subscription({ status: "trialing", trial_end: CREATED + 3 * 24 * 60 * 60 })
+    ),
+  "invoice.paid": () => stripeEvent("invoice.paid", invoice()),
+  "invoice.payment_failed": () =>
+    stripeEvent(
+      "invoice.payment_failed",
+      invoice({
+        status: "open",
+        amount_paid: 0,
+        amount_remaining: 1999,
+        attempt_count: 2,
+        next_payment_attempt: CREATED + 3 * 24 * 60 * 60,
+      })
+    ),
+  // Upcoming invoices are previews, so they have no ID or number yet
+  "invoice.upcoming": () =>
+    stripeEvent("invoice.upcoming", invoice({ id: null, number: null, status: "draft", amount_paid: 0, amount_remaining: 1999 })),
+  "checkout.session.completed": () =>
+    stripeEvent("checkout.session.completed", {
+      id: "cs_test_SimulatedSession0",
+      object: "checkout.session",
+      mode: "subscription",
+      status: "complete",
+      payment_status: "paid",
+      amount_total: 1999,
+      currency: "usd",
+      customer: FIXTURE_CUSTOMER_ID,
+      customer_email: FIXTURE_EMAIL,
+      customer_details: { email: FIXTURE_EMAIL, name: "Ada Lovelace" },
+      client_reference_id: null,
+      subscription: FIXTURE_SUBSCRIPTION_ID,
+      invoice: FIXTURE_INVOICE_ID,
+      metadata: {},
+      created: CREATED,
+    }),
+  "charge.refunded": () =>
+    stripeEvent("charge.refunded", {
+      id: "ch_SimulatedCharge0",
+      object: "charge",
+      customer: FIXTURE_CUSTOMER_ID,
+      description: "Pro subscription",
+      amount: 1999,
+      amount_refunded: 1999,
+      currency: "usd",
+      refunded: true,
+      receipt_url: "https://pay.stripe.com/receipts/simulated",
+      invoice: FIXTURE_INVOICE_ID,
+      created: CREATED,
+    }),
+  "customer.created": () =>
+    stripeEvent("customer.created", {
+      id: FIXTURE_CUSTOMER_ID,
+      object: "customer",
+      email: FIXTURE_EMAIL,
+      name: "Ada Lovelace",
+      phone: null,
+      preferred_locales: ["en-GB"],
+      metadata: {},
+      created: CREATED,
+    }),
+};
@@ -0,0 +1,221 @@
+/**
+ * Sends signed Clerk and Stripe fixture events to a running app
+ *
+ *   npm run simulate -- clerk user.created email.created:verification_code
+ *   npm run simulate -- stripe all --burst 5 --same-id
+ *   npm run simulate -- clerk session.created --set data.latest_activity.city=Paris
+ *   npm run simulate -- stripe invoice.paid --tamper signature
+ *   npm run simulate -- --list
+ *
+ * Events are signed with SIGNING_SECRET and STRIPE_WEBHOOK_SECRET, read from
+ * the environment or from .env.local / .env. When a variable lists several
+ * secrets for rotation, the first (newest) one is used.
+ */
+
+import { randomUUID } from 'crypto';
+import { existsSync } from 'fs';
+import { parseArgs } from 'util';
+import { clerkFixtures } from './fixtures/clerk-events';
+import { stripeFixtures } from './fixtures/stripe-events';
+import { TAMPER_MODES, signRequest, type Tamper, type WebhookSource } from './webhook-signing';
+
+const USAGE = `Usage: npm run simulate -- <clerk|stripe> <fixture...|all> [options]
+
+Fixtures are matched by key or prefix, e.g. "email.created" sends every email slug
+and "invoice" every invoice event.
+
+Options:
+  --url <url>           App base URL (default SIMULATOR_URL or http://localhost:3000)
+  --set <path=value>    Override a field of the event, e.g. data.first_name=Grace. Repeatable.
+                        Values are parsed as JSON when they can be, otherwise sent as strings.
+  --burst <n>           Send each event n times at once (default 1)
+  --same-id             Reuse one event ID across the burst, to exercise deduplication
+  --tamper <mode>       Break the delivery on purpose: ${TAMPER_MODES.join(', ')}
+  --list                List the available fixtures
+  --help                Show this message`;
+
+const FIXTURES: Record<WebhookSource, Record<string, () => object>> = {
+  clerk: clerkFixtures,
+  stripe: stripeFixtures,
+};
+
+const SECRET_VARIABLES: Record<WebhookSource, string> = {
+  clerk: 'SIGNING_SECRET',
+  stripe: 'STRIPE_WEBHOOK_SECRET',
+};
+
+interface Delivery {
+  fixture: string;
+  eventId: string;
+  status: number | 'error';
+  durationMs: number;
+  body: string;
+}
+
+function loadEnvFiles() {
+  for (const file of ['.env.local', '.env']) {
+    if (existsSync(file)) {
+      // Variables already set in the environment win over the files
+      process.loadEnvFile(file);
+    }
+  }
+}
+
+function selectFixtures(source: WebhookSource, names: string[]): string[] {
+  const available = Object.keys(FIXTURES[source]);
+  if (names.includes('all')) {
+    return available;
+  }
+
+  return names.flatMap((name) => {
+    const matches = available.filter(
+      (key) => key === name || key.startsWith(`${name}:`) || key.startsWith(`${name}.`)
+    );
+    if (matches.length === 0) {
+      throw new Error(`No ${source} fixture matches "${name}", run with --list to see them`);
+    }
+    return matches;
+  });
+}
+
+/**
+ * Sets a dotted path on the event, e.g. `data.email_addresses.0.email_address`
+ */
+function applyOverride(event: Record<string, unknown>, override: string) {
+  const separator = override.indexOf('=');
+  if (separator === -1) {
+    throw new Error(`--set expects path=value, got "${override}"`);
+  }
+
+  const keys = override.slice(0, separator).split('.');
+  const raw = override.slice(separator + 1);
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    value = raw;
+  }
+
+  let target = event;
+  for (const key of keys.slice(0, -1)) {
+    if (typeof target[key] !== 'object' || target[key] === null) {
+      target[key] = {};
+    }
+    target = target[key] as Record<string, unknown>;
+  }
+  target[keys[keys.length - 1]] = value;
+}
+
+async function deliver(
+  url: string,
+  source: WebhookSource,
+  fixture: string,
+  event: Record<string, unknown>,
+  secret: string,
+  messageId: string,
+  tamper?: Tamper
+): Promise<Delivery> {
+  const { body, headers } = signRequest(source, JSON.stringify(event), secret, { messageId, tamper });
+  const eventId = source === 'clerk' ? messageId : String(event.id);
+  const startedAt = Date.now();
+
+  try {
+    const response = await fetch(url, { method: 'POST', headers, body });
+    return { fixture, eventId, status: response.status, durationMs: Date.now() - startedAt, body: await response.text() };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { fixture, eventId, status: 'error', durationMs: Date.now() - startedAt, body: message };
+  }
+}
+
+function report(source: WebhookSource, delivery: Delivery) {
+  const ok = typeof delivery.status === 'number' && delivery.status < 400;
+  const body = delivery.body.length > 120 ? `${delivery.body.slice(0, 117)}...` : delivery.body;
+  console.log(
+    `${ok ? '✓' : '✗'} ${delivery.status} ${source} ${delivery.fixture} (${delivery.eventId}) ${delivery.durationMs}ms ${body}`
+  );
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      url: { type: 'string' },
+      set: { type: 'string', multiple: true },
+      burst: { type: 'string' },
+      'same-id': { type: 'boolean' },
+      tamper: { type: 'string' },
+      list: { type: 'boolean' },
+      help: { type: 'boolean' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (values.list) {
+    for (const source of Object.keys(FIXTURES) as WebhookSource[]) {
+      console.log(`${source}:\n${Object.keys(FIXTURES[source]).map((key) => `  ${key}`).join('\n')}`);
+    }
+    return;
+  }
+
+  const [source, ...names] = positionals;
+  if ((source !== 'clerk' && source !== 'stripe') || names.length === 0) {
+    throw new Error(USAGE);
+  }
+
+  const tamper = values.tamper as Tamper | undefined;
+  if (tamper && !TAMPER_MODES.includes(tamper)) {
+    throw new Error(`Unknown --tamper mode "${tamper}", expected one of ${TAMPER_MODES.join(', ')}`);
+  }
+  const burst = Number(values.burst ?? 1);
+  if (!Number.isInteger(burst) || burst < 1) {
+    throw new Error(`--burst expects a positive integer, got "${values.burst}"`);
+  }
+
+  loadEnvFiles();
+  const [secret] = (process.env[SECRET_VARIABLES[source]] || '').split(',').map((item) => item.trim());
+  if (!secret) {
+    throw new Error(`Please add ${SECRET_VARIABLES[source]} to .env.local to sign ${source} events`);
+  }
+  const baseUrl = values.url || process.env.SIMULATOR_URL || 'http://localhost:3000';
+  const url = new URL(`/api/webhooks/${source}`, baseUrl).toString();
+
+  let failed = false;
+  for (const fixture of selectFixtures(source, names)) {
+    const sharedId = randomUUID().replace(/-/g, '');
+    const deliveries = await Promise.all(
+      Array.from({ length: burst }, () => {
+        const id = values['same-id'] ? sharedId : randomUUID().replace(/-/g, '');
+        const event = FIXTURES[source][fixture]() as Record<string, unknown>;
+        // Fresh IDs keep repeated runs from being deduplicated by the app
+        if (source === 'stripe') {
+          event.id = `evt_${id}`;
+        }
+        for (const override of values.set ?? []) {
+          applyOverride(event, override);
+        }
+        return deliver(url, source, fixture, event, secret, `msg_${id}`, tamper);
+      })
+    );
+
+    for (const delivery of deliveries) {
+      report(source, delivery);
+      // Tampered deliveries are expected to be rejected
+      if (!tamper && (delivery.status === 'error' || delivery.status >= 400)) {
+        failed = true;
+      }
+    }
+  }
+
+  if (failed) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
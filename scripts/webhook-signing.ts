@@ -0,0 +1,112 @@
+/**
+ * Signs webhook bodies the way Clerk (Svix) and Stripe do, for the simulator and tests
+ */
+
+import { randomUUID } from 'crypto';
+import Stripe from 'stripe';
+import { Webhook } from 'svix';
+
+export type WebhookSource = 'clerk' | 'stripe';
+
+/**
+ * Ways to break a delivery on purpose:
+ * - `signature` corrupts the signature
+ * - `body` changes the body after it was signed
+ * - `missing-headers` drops the signature headers
+ * - `stale` signs with a timestamp an hour in the past
+ * - `future` signs with a timestamp an hour in the future
+ */
+export type Tamper = 'signature' | 'body' | 'missing-headers' | 'stale' | 'future';
+
+export const TAMPER_MODES: Tamper[] = ['signature', 'body', 'missing-headers', 'stale', 'future'];
+
+export interface SignedRequest {
+  body: string;
+  headers: Record<string, string>;
+}
+
+export interface SignOptions {
+  /** The `svix-id` header, a fresh ID by default */
+  messageId?: string;
+  timestamp?: Date;
+  tamper?: Tamper;
+}
+
+const SKEW_OFFSET_MS = 60 * 60 * 1000;
+
+/**
+ * Signs a body with a Svix secret (`whsec_...`), returning the `svix-*` headers
+ */
+export function signClerkRequest(body: string, secret: string, options: SignOptions = {}): SignedRequest {
+  const messageId = options.messageId || `msg_${randomUUID().replace(/-/g, '')}`;
+  const timestamp = signingTime(options);
+  const signature = new Webhook(secret).sign(messageId, timestamp, body);
+
+  return tamperRequest({
+    body,
+    headers: {
+      'content-type': 'application/json',
+      'svix-id': messageId,
+      'svix-timestamp': String(Math.floor(timestamp.getTime() / 1000)),
+      'svix-signature': signature,
+    },
+  }, options.tamper);
+}
+
+/**
+ * Signs a body with a Stripe endpoint secret, returning the `Stripe-Signature` header
+ */
+export function signStripeRequest(body: string, secret: string, options: SignOptions = {}): SignedRequest {
+  const signature = Stripe.webhooks.generateTestHeaderString({
+    payload: body,
+    secret,
+    timestamp: Math.floor(signingTime(options).getTime() / 1000),
+  });
+
+  return tamperRequest({
+    body,
+    headers: {
+      'content-type': 'application/json',
+      'stripe-signature': signature,
+    },
+  }, options.tamper);
+}
+
+export function signRequest(source: WebhookSource, body: string, secret: string, options: SignOptions = {}): SignedRequest {
+  return source === 'clerk' ? signClerkRequest(body, secret, options) : signStripeRequest(body, secret, options);
+}
+
+function signingTime({ timestamp = new Date(), tamper }: SignOptions): Date {
+  switch (tamper) {
+    case 'stale':
+      return new Date(timestamp.getTime() - SKEW_OFFSET_MS);
+    case 'future':
+      return new Date(timestamp.getTime() + SKEW_OFFSET_MS);
+    default:
+      return timestamp;
+  }
+}
+
+function tamperRequest(request: SignedRequest, tamper: Tamper | undefined): SignedRequest {
+  switch (tamper) {
+    case 'signature': {
+      const headers = { ...request.headers };
+      const name = 'svix-signature' in headers ? 'svix-signature' : 'stripe-signature';
+      // Flip the last character of the signature so it no longer matches
+      const value = headers[name];
+      headers[name] = value.slice(0, -1) + (value.endsWith('A') ? 'B' : 'A');
+      return { ...request, headers };
+    }
+    case 'body':
+      return { ...request, body: request.body.replace(/}\s*$/, ',"tampered":true}') };
+    case 'missing-headers':
+      return {
+        ...request,
+        headers: Object.fromEntries(
+          Object.entries(request.headers).filter(([name]) => !name.startsWith('svix-') && name !== 'stripe-signature')
+        ),
+      };
+    default:
+      return request;
+  }
+}
@@ -0,0 +1,264 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST } from '../app/api/webhooks/clerk/route';
+import { getRawBody, listLoggedEvents } from '../app/utils/event-log';
+import { getKeyValueStore } from '../app/utils/kv-store';
+import { defaultPreferences, saveStoredPreferences } from '../app/utils/notification-preferences';
+import { saveOrganizationConfig } from '../app/utils/organization-context';
+import { listDeadLetters } from '../app/utils/retry-queue';
+import { FIXTURE_EMAIL, FIXTURE_ORGANIZATION_ID, FIXTURE_USER_ID, clerkFixtures } from '../scripts/fixtures/clerk-events';
+import { TEST_SECRETS, rawWebhookRequest, recordingTransport, sentCalls, webhookRequest } from './helpers';
+
+const ROUTED_FIXTURES = Object.keys(clerkFixtures).filter(
+  (key) => key === 'user.created' || key.startsWith('email.created:') || key.startsWith('sms.created:')
+);
+
+const SYNC_FIXTURES = [
+  'user.updated',
+  'user.deleted',
+  'organization.created',
+  'organization.updated',
+  'organization.deleted',
+  'organizationMembership.created',
+  'organizationMembership.deleted',
+];
+
+// A sign-in from a different device and client than the session.created fixture
+const NEW_DEVICE_SESSION = {
+  id: 'sess_2sImuLaTeDsEcOnD000000000',
+  client_id: 'client_2sImuLaTeDpHoNe00000000',
+  latest_activity: {
+    browser_name: 'Safari',
+    browser_version: '18.2',
+    device_type: 'iPhone',
+    is_mobile: true,
+    ip_address: '198.51.100.7',
+    city: 'Lisbon',
+    country: 'PT',
+  },
+};
+
+async function send(fixture: string, overrides: Record<string, unknown> = {}) {
+  const event = clerkFixtures[fixture]() as unknown as { data: Record<string, unknown> };
+  event.data = { ...event.data, ...overrides };
+  return POST(webhookRequest('clerk', event));
+}
+
+describe('Clerk webhook route', () => {
+  describe('routed events', () => {
+    it.each(ROUTED_FIXTURES)('triggers the workflow for %s', async (fixture) => {
+      const response = await send(fixture);
+
+      expect(response.status).toBe(200);
+      expect(recordingTransport().triggers).toMatchSnapshot();
+    });
+
+    it('alerts on sign-ins from a new device, but not on the first sign-in', async () => {
+      await send('session.created');
+      expect(recordingTransport().triggers).toEqual([]);
+
+      const response = await send('session.created', NEW_DEVICE_SESSION);
+
+      expect(response.status).toBe(200);
+      expect(recordingTransport().triggers).toMatchSnapshot();
+    });
+
+    it('skips workflows the subscriber turned off', async () => {
+      const preferences = defaultPreferences();
+      preferences.product_updates = { email: false, sms: false, in_app: false };
+      await saveStoredPreferences(FIXTURE_USER_ID, preferences);
+
+      const response = await send('user.created');
+
+      expect(response.status).toBe(200);
+      expect(recordingTransport().triggers).toEqual([]);
+      const [logged] = await listLoggedEvents();
+      expect(logged.triggers).toEqual([{ workflowId: 'user-created', subscriberId: FIXTURE_USER_ID, outcome: 'skipped' }]);
+    });
+
+    it('sends security workflows the organization disabled', async () => {
+      await saveOrganizationConfig({
+        organizationId: FIXTURE_ORGANIZATION_ID,
+        name: 'Analytical Engines',
+        slug: 'analytical-engines',
+        logoUrl: '',
+        disabledWorkflows: ['new-sign-in'],
+      });
+      await send('session.created');
+
+      await send('session.created', NEW_DEVICE_SESSION);
+
+      expect(recordingTransport().triggers).toMatchObject([{ workflowId: 'new-sign-in' }]);
+    });
+  });
+
+  describe('sync-only events', () => {
+    it.each(SYNC_FIXTURES)('syncs Novu for %s without triggering workflows', async (fixture) => {
+      const response = await send(fixture);
+
+      expect(response.status).toBe(200);
+      expect(recordingTransport().triggers).toEqual([]);
+      expect(sentCalls()).toMatchSnapshot();
+    });
+  });
+
+  it('accepts unsupported events without calling Novu', async () => {
+    const response = await send('organizationInvitation.created');
+
+    expect(response.status).toBe(200);
+    expect(sentCalls()).toEqual([]);
+    const [logged] = await listLoggedEvents();
+    expect(logged).toMatchObject({ status: 'unrouted', type: 'organizationInvitation.created', verified: true });
+  });
+
+  it('processes a redelivered event only once', async () => {
+    const event = clerkFixtures['user.created']();
+    const first = await POST(webhookRequest('clerk', event, { messageId: 'msg_redelivered' }));
+    const second = await POST(webhookRequest('clerk', event, { messageId: 'msg_redelivered' }));
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(200);
+    expect(await second.text()).toBe('Webhook already processed');
+    expect(recordingTransport().triggers).toHaveLength(1);
+  });
+
+  describe('rejected deliveries', () => {
+    it.each([
+      ['signature', 'invalid_signature'],
+      ['body', 'invalid_signature'],
+      ['stale', 'expired_timestamp'],
+      ['future', 'future_timestamp'],
+      ['missing-headers', 'missing_headers'],
+    ] as const)('rejects a delivery with a tampered %s', async (tamper, code) => {
+      const response = await POST(webhookRequest('clerk', clerkFixtures['user.created'](), { tamper }));
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ error: code });
+      expect(sentCalls()).toEqual([]);
+      const [logged] = await listLoggedEvents();
+      expect(logged).toMatchObject({ status: 'rejected', verified: false });
+      expect(logged.body).toBeUndefined();
+      expect(await getRawBody(logged.id)).toBeUndefined();
+    });
+
+    it('accepts older deliveries when the tolerance is raised', async () => {
+      process.env.WEBHOOK_TOLERANCE_SECONDS = '7200';
+      try {
+        const response = await POST(webhookRequest('clerk', clerkFixtures['user.created'](), { tamper: 'stale' }));
+
+        expect(response.status).toBe(200);
+      } finally {
+        delete process.env.WEBHOOK_TOLERANCE_SECONDS;
+      }
+    });
+  });
+
+  it('verifies the body exactly as it was signed', async () => {
+    const body = JSON.stringify(clerkFixtures['user.created'](), null, 2);
+
+    const response = await POST(rawWebhookRequest('clerk', body));
+
+    expect(response.status).toBe(200);
+    expect(recordingTransport().triggers).toHaveLength(1);
+    const [logged] = await listLoggedEvents();
+    expect(await getRawBody(logged.id)).toBe(body);
+  });
+
+  it('logs verified bodies with contact details redacted', async () => {
+    await POST(webhookRequest('clerk', clerkFixtures['user.created']()));
+
+    const [logged] = await listLoggedEvents();
+    expect(logged.body).not.toContain(FIXTURE_EMAIL);
+    expect(logged).not.toHaveProperty('rawBody');
+    expect(JSON.parse(logged.body!)).toMatchObject({ type: 'user.created', data: { id: FIXTURE_USER_ID } });
+  });
+
+  describe('signing secret rotation', () => {
+    const NEW_SECRET = `whsec_${Buffer.from('rotated clerk signing secret').toString('base64')}`;
+
+    beforeEach(() => {
+      process.env.SIGNING_SECRET = `${NEW_SECRET},${TEST_SECRETS.clerk}`;
+    });
+
+    afterEach(() => {
+      process.env.SIGNING_SECRET = TEST_SECRETS.clerk;
+    });
+
+    it.each([
+      ['new', NEW_SECRET, 0],
+      ['old', TEST_SECRETS.clerk, 1],
+    ] as const)('accepts deliveries signed with the %s secret and logs which one matched', async (_, secret, index) => {
+      const response = await POST(webhookRequest('clerk', clerkFixtures['user.created'](), { secret }));
+
+      expect(response.status).toBe(200);
+      const verified = vi
+        .mocked(console.log)
+        .mock.calls.map(([line]) => JSON.parse(String(line)))
+        .find((entry) => entry.msg === 'Webhook signature verified');
+      expect(verified).toMatchObject({ signingKeyIndex: index, signingKeyCount: 2 });
+      expect(JSON.stringify(verified)).not.toContain(secret);
+    });
+
+    it('rejects deliveries signed with a secret that is no longer listed', async () => {
+      process.env.SIGNING_SECRET = NEW_SECRET;
+
+      const response = await POST(webhookRequest('clerk', clerkFixtures['user.created']()));
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ error: 'invalid_signature' });
+    });
+  });
+
+  describe('downstream failures', () => {
+    it('queues the trigger for retry when Novu fails', async () => {
+      recordingTransport().failWith = new Error('Novu is down');
+
+      const response = await send('email.created:verification_code');
+
+      expect(response.status).toBe(200);
+      const [logged] = await listLoggedEvents();
+      expect(logged.triggers).toEqual([
+        { workflowId: 'verification-code', subscriberId: FIXTURE_USER_ID, outcome: 'queued' },
+      ]);
+      const queued = await getKeyValueStore('trigger-retry-queue').keys('job:');
+      expect(queued).toHaveLength(1);
+      expect(await listDeadLetters()).toEqual([]);
+    });
+
+    it('fails the delivery when the trigger cannot be queued either', async () => {
+      recordingTransport().failWith = new Error('Novu is down');
+      vi.spyOn(getKeyValueStore('trigger-retry-queue'), 'set').mockRejectedValue(new Error('KV is down'));
+
+      const response = await send('email.created:verification_code');
+
+      expect(response.status).toBe(500);
+      expect(await response.text()).toBe('Error: Could not trigger or queue workflow verification-code');
+      const [logged] = await listLoggedEvents();
+      expect(logged).toMatchObject({ status: 'failed', verified: true });
+    });
+
+    it('still alerts on a new device when the failed delivery is retried', async () => {
+      await send('session.created');
+      recordingTransport().failWith = new Error('Novu is down');
+      vi.spyOn(getKeyValueStore('trigger-retry-queue'), 'set').mockRejectedValueOnce(new Error('KV is down'));
+      const event = clerkFixtures['session.created']() as unknown as { data: Record<string, unknown> };
+      event.data = { ...event.data, ...NEW_DEVICE_SESSION };
+
+      const failed = await POST(webhookRequest('clerk', event, { messageId: 'msg_new_device_retry' }));
+      recordingTransport().failWith = null;
+      const retried = await POST(webhookRequest('clerk', event, { messageId: 'msg_new_device_retry' }));
+
+      expect(failed.status).toBe(500);
+      expect(retried.status).toBe(200);
+      expect(recordingTransport().triggers).toMatchObject([{ workflowId: 'new-sign-in' }]);
+    });
+
+    it('fails the delivery when the subscriber sync fails', async () => {
+      recordingTransport().failWith = new Error('Novu is down');
+
+      const response = await send('user.updated');
+
+      expect(response.status).toBe(500);
+      expect(await response.text()).toBe('Error: Novu is down');
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { GET } from '../app/api/health/route';
+import {
+  ConfigError,
+  clerkWebhookConfig,
+  localeConfig,
+  notificationTransportConfig,
+  validateConfig,
+} from '../app/utils/config';
+import { TEST_SECRETS } from './helpers';
+
+describe('config', () => {
+  it('names the missing variable', () => {
+    expect(() => clerkWebhookConfig({})).toThrow(ConfigError);
+    expect(() => clerkWebhookConfig({})).toThrow(/SIGNING_SECRET/);
+    expect(() => notificationTransportConfig({ NOTIFICATION_TRANSPORT: 'novu' })).toThrow(/NOVU_SECRET_KEY/);
+  });
+
+  it('still reads the signing secret from CLERK_SIGNING_SECRET', () => {
+    expect(clerkWebhookConfig({ CLERK_SIGNING_SECRET: 'whsec_legacy' })).toMatchObject({ signingSecrets: ['whsec_legacy'] });
+  });
+
+  it('reads rotated signing secrets in order', () => {
+    expect(clerkWebhookConfig({ SIGNING_SECRET: ' whsec_new, whsec_old ,' })).toMatchObject({
+      signingSecrets: ['whsec_new', 'whsec_old'],
+    });
+  });
+
+  it('reads the timestamp tolerance, defaulting to five minutes', () => {
+    expect(clerkWebhookConfig({ SIGNING_SECRET: 'whsec_test' }).toleranceSeconds).toBe(300);
+    expect(clerkWebhookConfig({ SIGNING_SECRET: 'whsec_test', WEBHOOK_TOLERANCE_SECONDS: '60' }).toleranceSeconds).toBe(60);
+    expect(() => clerkWebhookConfig({ SIGNING_SECRET: 'whsec_test', WEBHOOK_TOLERANCE_SECONDS: '-1' })).toThrow(
+      /WEBHOOK_TOLERANCE_SECONDS/
+    );
+  });
+
+  it('reports unknown transports as problems', () => {
+    const report = validateConfig({ SIGNING_SECRET: 'whsec_test', NOTIFICATION_TRANSPORT: 'carrier-pigeon' });
+
+    expect(report.sources.clerk).toEqual({ configured: true, missing: [] });
+    expect(report.sources.stripe).toEqual({
+      configured: false,
+      missing: ['STRIPE_WEBHOOK_SECRET', 'STRIPE_SECRET_KEY'],
+    });
+    expect(report.problems).toEqual([
+      { variable: 'NOTIFICATION_TRANSPORT', message: expect.stringContaining('carrier-pigeon') },
+    ]);
+  });
+
+  it('reads locales in canonical form, rejecting a default that is not supported', () => {
+    expect(localeConfig({ SUPPORTED_LOCALES: 'en_us, fr-fr' })).toEqual({
+      supportedLocales: ['en-US', 'fr-FR'],
+      defaultLocale: 'en-US',
+    });
+    expect(() => localeConfig({ SUPPORTED_LOCALES: 'en-US', DEFAULT_LOCALE: 'de-DE' })).toThrow(/DEFAULT_LOCALE/);
+    expect(() => localeConfig({ SUPPORTED_LOCALES: 'en-US,not a locale' })).toThrow(/SUPPORTED_LOCALES/);
+  });
+
+  it('reports the pipeline settings, listing invalid ones as problems', () => {
+    const report = validateConfig({
+      SIGNING_SECRET: 'whsec_test',
+      NOTIFICATION_TRANSPORT: 'memory',
+      TRIGGER_MAX_ATTEMPTS: 'three',
+      LOG_LEVEL: 'verbose',
+      ADMIN_USER_IDS: 'user_admin,admin@example.com',
+      SUPPORTED_LOCALES: 'en-US,fr-FR',
+    });
+
+    expect(report.settings).toEqual({
+      idempotencyTtlSeconds: 604800,
+      eventLogTtlSeconds: 1209600,
+      smsMaxSegments: 3,
+      supportedLocales: ['en-US', 'fr-FR'],
+      defaultLocale: 'en-US',
+      deletedSubscriberMode: 'remove',
+    });
+    expect(report.features).toEqual({ inbox: { configured: false }, admin: { configured: false } });
+    expect(report.problems.map((problem) => problem.variable)).toEqual([
+      'ADMIN_USER_IDS',
+      'TRIGGER_MAX_ATTEMPTS',
+      'LOG_LEVEL',
+    ]);
+  });
+
+  describe('health route', () => {
+    it('reports what is configured without leaking secrets', async () => {
+      const response = await GET();
+      const text = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(JSON.parse(text)).toMatchObject({
+        status: 'ok',
+        sources: { clerk: { configured: true }, stripe: { configured: true } },
+        transports: { notifications: { kind: 'memory', configured: true }, kvStore: { kind: 'memory', configured: true } },
+      });
+      for (const secret of Object.values(TEST_SECRETS)) {
+        expect(text).not.toContain(secret);
+      }
+    });
+
+    it('responds 503 when a transport is misconfigured', async () => {
+      process.env.KV_STORE = 'redis';
+      try {
+        const response = await GET();
+
+        expect(response.status).toBe(503);
+        expect(await response.json()).toMatchObject({
+          status: 'misconfigured',
+          problems: [{ variable: 'KV_REST_API_URL' }],
+        });
+      } finally {
+        process.env.KV_STORE = 'memory';
+      }
+    });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Builds signed webhook requests from the simulator fixtures and reads back
+ * what reached the notification layer
+ */
+
+import { NextRequest } from 'next/server';
+import { getNotificationTransport, RecordingTransport, type TransportCall } from '../app/utils/notification-transport';
+import { signRequest, type SignOptions, type WebhookSource } from '../scripts/webhook-signing';
+
+export const TEST_SECRETS: Record<WebhookSource, string> = {
+  clerk: 'whsec_MfKQ9r8GKYqrTwjUPD8ILPZIo2LaLaSw',
+  stripe: 'whsec_test_stripe_secret',
+};
+
+let currentHeaders = new Headers();
+
+/**
+ * The headers of the last request built, returned by the mocked `next/headers`
+ */
+export function requestHeaders(): Headers {
+  return currentHeaders;
+}
+
+/**
+ * Signs an event for a webhook route and builds the request to pass to its `POST` export
+ * @param options.secret Signs with this secret instead of the one the tests configure
+ */
+export function webhookRequest(
+  source: WebhookSource,
+  event: object,
+  options: SignOptions & { secret?: string } = {}
+): NextRequest {
+  return rawWebhookRequest(source, JSON.stringify(event), options);
+}
+
+/**
+ * Signs a body exactly as given, e.g. formatted differently from `JSON.stringify`
+ */
+export function rawWebhookRequest(
+  source: WebhookSource,
+  rawBody: string,
+  { secret = TEST_SECRETS[source], ...options }: SignOptions & { secret?: string } = {}
+): NextRequest {
+  const { body, headers } = signRequest(source, rawBody, secret, options);
+  currentHeaders = new Headers(headers);
+  return new NextRequest(`http://localhost:3000/api/webhooks/${source}`, { method: 'POST', headers, body });
+}
+
+export function recordingTransport(): RecordingTransport {
+  const transport = getNotificationTransport();
+  if (!(transport instanceof RecordingTransport)) {
+    throw new Error('Tests expect the recording notification transport');
+  }
+  return transport;
+}
+
+/**
+ * Every call that reached the notification layer, without timestamps so they can be snapshotted
+ */
+export function sentCalls(): Omit<TransportCall, 'at'>[] {
+  return recordingTransport().calls.map(({ method, args }) => ({ method, args }));
+}
@@ -0,0 +1,40 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileKeyValueStore } from '../app/utils/kv-store';
+
+describe('FileKeyValueStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kv-store-'));
+    filePath = path.join(dir, 'store.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads the values of writes started before the read', async () => {
+    const store = new FileKeyValueStore(filePath);
+
+    const writes = Array.from({ length: 5 }, (_, index) => store.set(`key-${index}`, index));
+    const [value, keys] = await Promise.all([store.get('key-4'), store.keys('key-'), ...writes]);
+
+    expect(value).toBe(4);
+    expect(keys).toHaveLength(5);
+  });
+
+  it('writes to a temporary file and renames it into place', async () => {
+    const store = new FileKeyValueStore(filePath);
+    const rename = vi.spyOn(fs, 'rename');
+
+    await store.set('key', 'value');
+
+    expect(rename).toHaveBeenCalledWith(expect.stringMatching(/\.tmp$/), filePath);
+    expect(await fs.readdir(dir)).toEqual(['store.json']);
+    expect(JSON.parse(await fs.readFile(filePath, 'utf8'))).toEqual({ key: { value: 'value' } });
+  });
+});
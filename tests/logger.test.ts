@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from 'vitest';
+import { POST } from '../app/api/webhooks/clerk/route';
+import { REDACTED, logger, redact, withLogContext } from '../app/utils/logger';
+import { FIXTURE_EMAIL, FIXTURE_PHONE, clerkFixtures } from '../scripts/fixtures/clerk-events';
+import { webhookRequest } from './helpers';
+
+function loggedLines(): string[] {
+  return [vi.mocked(console.log), vi.mocked(console.error)].flatMap((spy) =>
+    spy.mock.calls.map(([line]) => String(line))
+  );
+}
+
+describe('logger', () => {
+  it('redacts codes, links and message bodies', () => {
+    expect(
+      redact({ otp_code: '123456', action_url: 'https://example.com/verify?token=abc', body: 'Your code is 123456' })
+    ).toEqual({ otp_code: REDACTED, action_url: REDACTED, body: REDACTED });
+  });
+
+  it('masks email addresses and phone numbers wherever they appear', () => {
+    expect(redact({ email: 'grace@example.com', phone_number: '+15555550100', note: 'sent to +1 555 555 0100' })).toEqual({
+      email: 'g***@example.com',
+      phone_number: '+*********00',
+      note: 'sent to +*********00',
+    });
+  });
+
+  it('writes JSON lines with the log context', () => {
+    withLogContext({ source: 'stripe', eventId: 'evt_1', correlationId: 'corr_1' }, () =>
+      logger.info('Handled', { customerId: 'cus_1' })
+    );
+
+    expect(JSON.parse(loggedLines()[0])).toMatchObject({
+      level: 'info',
+      msg: 'Handled',
+      source: 'stripe',
+      eventId: 'evt_1',
+      correlationId: 'corr_1',
+      customerId: 'cus_1',
+    });
+  });
+
+  it('keeps codes and contact details out of the Clerk route logs', async () => {
+    const event = clerkFixtures['sms.created:verification_code']();
+    await POST(webhookRequest('clerk', event, { messageId: 'msg_logged' }));
+
+    const lines = loggedLines();
+    expect(lines.length).toBeGreaterThan(0);
+    for (const line of lines) {
+      expect(JSON.parse(line)).toMatchObject({ source: 'clerk', eventId: 'msg_logged' });
+      expect(line).not.toContain(FIXTURE_EMAIL);
+      expect(line).not.toContain(FIXTURE_PHONE);
+      expect(line).not.toMatch(/\b\d{6}\b/);
+    }
+  });
+});
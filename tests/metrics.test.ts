@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { GET } from '../app/api/metrics/route';
+import { POST as clerkPOST } from '../app/api/webhooks/clerk/route';
+import {
+  notificationTriggerDuration,
+  notificationTriggers,
+  renderMetrics,
+  webhookEventsReceived,
+  webhookEventsRejected,
+  webhookEventsVerified,
+  webhookStepDuration,
+  webhookVerificationDuration,
+} from '../app/utils/metrics';
+import { clerkFixtures } from '../scripts/fixtures/clerk-events';
+import { recordingTransport, webhookRequest } from './helpers';
+
+const TOKEN = 'metrics-test-token';
+
+function metricsRequest(token?: string) {
+  return new Request('http://localhost/api/metrics', {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+}
+
+describe('metrics', () => {
+  it('counts and times each stage of a delivery', async () => {
+    await clerkPOST(webhookRequest('clerk', clerkFixtures['user.created']()));
+
+    const labels = { source: 'clerk', type: 'user.created' };
+    expect(webhookEventsReceived.get(labels)).toBe(1);
+    expect(webhookEventsVerified.get(labels)).toBe(1);
+    expect(webhookVerificationDuration.count({ source: 'clerk' })).toBe(1);
+    expect(webhookStepDuration.count({ source: 'clerk', step: 'route_resolution' })).toBe(1);
+    expect(notificationTriggers.get({ workflow: 'user-created', outcome: 'succeeded' })).toBe(1);
+    expect(notificationTriggerDuration.count({ workflow: 'user-created' })).toBe(1);
+  });
+
+  it('counts rejected deliveries and failed triggers', async () => {
+    await clerkPOST(webhookRequest('clerk', clerkFixtures['user.created'](), { tamper: 'signature' }));
+    recordingTransport().failWith = new Error('Novu is down');
+    await clerkPOST(webhookRequest('clerk', clerkFixtures['user.created']()));
+
+    expect(webhookEventsReceived.get({ source: 'clerk', type: 'user.created' })).toBe(1);
+    expect(webhookEventsReceived.get({ source: 'clerk', type: 'unknown' })).toBe(1);
+    expect(webhookEventsRejected.get({ source: 'clerk', type: 'unknown' })).toBe(1);
+    expect(notificationTriggers.get({ workflow: 'user-created', outcome: 'failed' })).toBe(1);
+  });
+
+  it('never labels metrics with the type of an unverified delivery', async () => {
+    for (const type of ['aaa.bbb', 'ccc.ddd']) {
+      await clerkPOST(webhookRequest('clerk', { ...clerkFixtures['user.created'](), type }, { tamper: 'signature' }));
+    }
+
+    expect(webhookEventsRejected.get({ source: 'clerk', type: 'unknown' })).toBe(2);
+    expect(renderMetrics()).not.toMatch(/aaa\.bbb|ccc\.ddd/);
+  });
+
+  describe('endpoint', () => {
+    it('requires the metrics token', async () => {
+      process.env.METRICS_API_TOKEN = TOKEN;
+
+      expect((await GET(metricsRequest())).status).toBe(401);
+      expect((await GET(metricsRequest('wrong-token-value!'))).status).toBe(401);
+    });
+
+    it('renders the Prometheus text format', async () => {
+      process.env.METRICS_API_TOKEN = TOKEN;
+      await clerkPOST(webhookRequest('clerk', clerkFixtures['user.created']()));
+
+      const response = await GET(metricsRequest(TOKEN));
+      const text = await response.text();
+
+      expect(response.headers.get('content-type')).toContain('text/plain');
+      expect(text).toContain('# TYPE webhook_events_received_total counter');
+      expect(text).toContain('webhook_events_received_total{source="clerk",type="user.created"} 1');
+      expect(text).toContain('# TYPE webhook_verification_duration_seconds histogram');
+      expect(text).toContain('webhook_verification_duration_seconds_bucket{source="clerk",le="+Inf"} 1');
+      expect(text).toContain('webhook_verification_duration_seconds_count{source="clerk"} 1');
+    });
+  });
+});
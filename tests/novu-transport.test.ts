@@ -0,0 +1,175 @@
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { Novu } from '@novu/api';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { POST } from '../app/api/webhooks/clerk/route';
+import { NovuTransport, setNotificationTransport } from '../app/utils/notification-transport';
+import { organizationTopicKey } from '../app/utils/topic-sync';
+import { FIXTURE_EMAIL, FIXTURE_ORGANIZATION_ID, FIXTURE_USER_ID, clerkFixtures } from '../scripts/fixtures/clerk-events';
+import { webhookRequest } from './helpers';
+
+const NOVU_SECRET_KEY = 'novu_test_secret_key';
+
+interface ReceivedRequest {
+  method?: string;
+  path?: string;
+  authorization?: string;
+  body?: unknown;
+}
+
+/**
+ * The smallest valid answer to each Novu API call the subscriber sync makes
+ */
+function novuResponse(request: IncomingMessage, body: Record<string, unknown> | undefined): [number, unknown] {
+  if (request.method === 'DELETE') {
+    return [200, { acknowledged: true, status: 'deleted' }];
+  }
+  const subscriberId = typeof body?.subscriberId === 'string' ? body.subscriberId : FIXTURE_USER_ID;
+  return [
+    request.method === 'POST' ? 201 : 200,
+    {
+      _id: 'novu_subscriber_1',
+      subscriberId,
+      _organizationId: 'novu_org_1',
+      _environmentId: 'novu_env_1',
+      deleted: false,
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
+    },
+  ];
+}
+
+type NovuResponder = typeof novuResponse;
+
+/**
+ * Answers as Novu does for a topic that was never created, and like `novuResponse` otherwise
+ */
+function missingTopicResponse(request: IncomingMessage, body: Record<string, unknown> | undefined): [number, unknown] {
+  if (request.url?.startsWith('/v1/topics/') && request.method !== 'POST') {
+    return [
+      404,
+      { statusCode: 404, timestamp: '2025-01-01T00:00:00.000Z', path: request.url, message: 'Topic not found' },
+    ];
+  }
+  if (request.url === '/v1/topics') {
+    return [201, { data: { _id: 'novu_topic_1', key: body?.key } }];
+  }
+  return novuResponse(request, body);
+}
+
+/**
+ * Stands in for the Novu API, recording every request the real SDK sends
+ */
+async function startNovuStub(
+  respond: NovuResponder = novuResponse,
+): Promise<{ server: Server; url: string; received: ReceivedRequest[] }> {
+  const received: ReceivedRequest[] = [];
+  const server = createServer((request, response) => {
+    let raw = '';
+    request.on('data', (chunk) => (raw += chunk));
+    request.on('end', () => {
+      const body = raw ? JSON.parse(raw) : undefined;
+      received.push({ method: request.method, path: request.url, authorization: request.headers.authorization, body });
+      const [status, reply] = respond(request, body);
+      response.writeHead(status, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(reply));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, url: `http://127.0.0.1:${port}`, received };
+}
+
+describe('subscriber sync through the Novu API', () => {
+  let stub: Awaited<ReturnType<typeof startNovuStub>>;
+
+  beforeEach(async () => {
+    stub = await startNovuStub();
+    setNotificationTransport(new NovuTransport(new Novu({ secretKey: NOVU_SECRET_KEY, serverURL: stub.url })));
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => stub.server.close(resolve));
+    delete process.env.NOVU_DELETED_SUBSCRIBER_MODE;
+  });
+
+  it('upserts the subscriber on user.updated', async () => {
+    const response = await POST(webhookRequest('clerk', clerkFixtures['user.updated']()));
+
+    expect(response.status).toBe(200);
+    expect(stub.received).toEqual([
+      {
+        method: 'POST',
+        path: '/v2/subscribers',
+        authorization: `ApiKey ${NOVU_SECRET_KEY}`,
+        body: expect.objectContaining({ subscriberId: FIXTURE_USER_ID, firstName: 'Augusta Ada', email: FIXTURE_EMAIL }),
+      },
+    ]);
+  });
+
+  it('removes the subscriber on user.deleted', async () => {
+    const response = await POST(webhookRequest('clerk', clerkFixtures['user.deleted']()));
+
+    expect(response.status).toBe(200);
+    expect(stub.received).toEqual([
+      { method: 'DELETE', path: `/v2/subscribers/${FIXTURE_USER_ID}`, authorization: `ApiKey ${NOVU_SECRET_KEY}` },
+    ]);
+  });
+
+  it('clears the personal fields on user.deleted in anonymize mode', async () => {
+    process.env.NOVU_DELETED_SUBSCRIBER_MODE = 'anonymize';
+
+    const response = await POST(webhookRequest('clerk', clerkFixtures['user.deleted']()));
+
+    expect(response.status).toBe(200);
+    expect(stub.received).toEqual([
+      {
+        method: 'PATCH',
+        path: `/v2/subscribers/${FIXTURE_USER_ID}`,
+        authorization: `ApiKey ${NOVU_SECRET_KEY}`,
+        body: { firstName: null, lastName: null, email: null, phone: null, avatar: null, data: {} },
+      },
+    ]);
+  });
+});
+
+describe('topic sync through the Novu API', () => {
+  const TOPIC_PATH = `/v1/topics/${organizationTopicKey(FIXTURE_ORGANIZATION_ID)}`;
+  let stub: Awaited<ReturnType<typeof startNovuStub>>;
+
+  beforeEach(async () => {
+    stub = await startNovuStub(missingTopicResponse);
+    setNotificationTransport(new NovuTransport(new Novu({ secretKey: NOVU_SECRET_KEY, serverURL: stub.url })));
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => stub.server.close(resolve));
+  });
+
+  function topicRequests() {
+    return stub.received
+      .filter((request) => request.path?.startsWith('/v1/topics'))
+      .map(({ method, path, body }) => ({ method, path, body }));
+  }
+
+  it('creates the topic on organization.updated when it does not exist yet', async () => {
+    const response = await POST(webhookRequest('clerk', clerkFixtures['organization.updated']()));
+
+    expect(response.status).toBe(200);
+    expect(topicRequests()).toEqual([
+      { method: 'PATCH', path: TOPIC_PATH, body: { name: 'Analytical Engines Ltd' } },
+      {
+        method: 'POST',
+        path: '/v1/topics',
+        body: { key: organizationTopicKey(FIXTURE_ORGANIZATION_ID), name: 'Analytical Engines Ltd' },
+      },
+    ]);
+  });
+
+  it('treats a topic that does not exist as deleted on organization.deleted', async () => {
+    const response = await POST(webhookRequest('clerk', clerkFixtures['organization.deleted']()));
+
+    expect(response.status).toBe(200);
+    expect(topicRequests()).toEqual([{ method: 'GET', path: TOPIC_PATH, body: undefined }]);
+  });
+});
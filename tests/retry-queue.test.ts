@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getKeyValueStore } from '../app/utils/kv-store';
+import { enqueueTrigger, processRetryQueue, type QueuedTrigger } from '../app/utils/retry-queue';
+
+const REQUEST = { workflowId: 'user-created', to: { subscriberId: 'user_1' }, payload: {} };
+
+async function queueDueTrigger(): Promise<QueuedTrigger> {
+  const job = await enqueueTrigger(REQUEST, new Error('Novu is down'));
+  const queue = getKeyValueStore('trigger-retry-queue');
+  await queue.set(`job:${job.id}`, { ...job, nextAttemptAt: new Date(0).toISOString() });
+  return job;
+}
+
+describe('retry queue', () => {
+  it('sends due triggers and removes them from the queue', async () => {
+    await queueDueTrigger();
+    const send = vi.fn().mockResolvedValue(undefined);
+
+    expect(await processRetryQueue(send)).toEqual({ succeeded: 1, rescheduled: 0, deadLettered: 0 });
+    expect(send).toHaveBeenCalledWith(expect.objectContaining(REQUEST));
+    expect(await getKeyValueStore('trigger-retry-queue').keys('job:')).toEqual([]);
+  });
+
+  it('does not send a job another worker finished before the lock was taken', async () => {
+    const job = await queueDueTrigger();
+    const queue = getKeyValueStore('trigger-retry-queue');
+    const setIfAbsent = queue.setIfAbsent.bind(queue);
+    vi.spyOn(queue, 'setIfAbsent').mockImplementation(async (key, value, options) => {
+      // The other worker sends the job and releases its lock just before this one locks it
+      await queue.delete(`job:${job.id}`);
+      return setIfAbsent(key, value, options);
+    });
+    const send = vi.fn().mockResolvedValue(undefined);
+
+    await processRetryQueue(send);
+
+    expect(send).not.toHaveBeenCalled();
+    expect(await queue.keys('lock:')).toEqual([]);
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Runs before every test file: configures the app for tests and stands in for
+ * the Next.js request context the Clerk route reads its headers from
+ */
+
+import { afterEach, beforeEach, vi } from 'vitest';
+import { resetKeyValueStores } from '../app/utils/kv-store';
+import { resetMetrics } from '../app/utils/metrics';
+import { RecordingTransport, setNotificationTransport } from '../app/utils/notification-transport';
+import { TEST_SECRETS, requestHeaders } from './helpers';
+
+process.env.SIGNING_SECRET = TEST_SECRETS.clerk;
+process.env.STRIPE_WEBHOOK_SECRET = TEST_SECRETS.stripe;
+process.env.STRIPE_SECRET_KEY = 'sk_test_simulated';
+process.env.KV_STORE = 'memory';
+process.env.NOTIFICATION_TRANSPORT = 'memory';
+
+vi.mock('next/headers', () => ({
+  headers: async () => requestHeaders(),
+}));
+
+beforeEach(() => {
+  resetKeyValueStores();
+  resetMetrics();
+  setNotificationTransport(new RecordingTransport());
+  // The routes log every step; keep the test output readable
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
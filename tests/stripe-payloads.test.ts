@@ -0,0 +1,193 @@
+import type Stripe from 'stripe';
+import { describe, expect, it } from 'vitest';
+import {
+  formatAmount,
+  getStripeEventBuilder,
+  isSupportedStripeEvent,
+  planName,
+  stripePayloadBuilders,
+} from '../app/utils/stripe-payloads';
+import { FIXTURE_EMAIL } from '../scripts/fixtures/clerk-events';
+import {
+  FIXTURE_CUSTOMER_ID,
+  FIXTURE_INVOICE_ID,
+  FIXTURE_SUBSCRIPTION_ID,
+  stripeFixtures,
+} from '../scripts/fixtures/stripe-events';
+
+const CREATED = '2025-01-15T09:30:00.000Z';
+const MONTH_LATER = '2025-02-14T09:30:00.000Z';
+const THREE_DAYS_LATER = '2025-01-18T09:30:00.000Z';
+
+function build(type: string) {
+  const event = stripeFixtures[type]();
+  if (!isSupportedStripeEvent(event)) {
+    throw new Error(`No builder for ${type}`);
+  }
+  const builder = getStripeEventBuilder(event);
+  return { customer: builder.customer(event), payload: builder.payload(event) };
+}
+
+function price(overrides: Partial<Stripe.Price> = {}): Stripe.Price {
+  const [item] = (stripeFixtures['customer.subscription.created']().data.object as Stripe.Subscription).items.data;
+  return { ...item.price, ...overrides };
+}
+
+const subscription = {
+  subscription_id: FIXTURE_SUBSCRIPTION_ID,
+  status: 'active',
+  plan_name: 'Pro',
+  amount: '$19.99',
+  interval: 'month',
+  current_period_start: CREATED,
+  current_period_end: MONTH_LATER,
+  cancel_at_period_end: false,
+  canceled_at: null,
+  trial_end: null,
+};
+
+const invoice = {
+  invoice_id: FIXTURE_INVOICE_ID,
+  invoice_number: 'SIM-0001',
+  status: 'paid',
+  plan_name: 'Pro',
+  amount_due: '$19.99',
+  amount_paid: '$19.99',
+  amount_remaining: '$0.00',
+  period_start: CREATED,
+  period_end: MONTH_LATER,
+  due_date: null,
+  next_payment_attempt: null,
+  attempt_count: 1,
+  hosted_invoice_url: 'https://invoice.stripe.com/i/simulated',
+  invoice_pdf: 'https://pay.stripe.com/invoice/simulated/pdf',
+};
+
+describe('Stripe payload builders', () => {
+  it('has a fixture for every builder', () => {
+    for (const type of Object.keys(stripePayloadBuilders)) {
+      expect(stripeFixtures[type], type).toBeDefined();
+    }
+  });
+
+  it.each(Object.keys(stripePayloadBuilders))('finds the customer of %s', (type) => {
+    expect(build(type).customer).toBe(FIXTURE_CUSTOMER_ID);
+  });
+
+  it('builds customer.subscription.created', () => {
+    expect(build('customer.subscription.created').payload).toEqual(subscription);
+  });
+
+  it('builds customer.subscription.updated', () => {
+    expect(build('customer.subscription.updated').payload).toEqual({ ...subscription, cancel_at_period_end: true });
+  });
+
+  it('builds customer.subscription.deleted', () => {
+    expect(build('customer.subscription.deleted').payload).toEqual({
+      ...subscription,
+      status: 'canceled',
+      canceled_at: CREATED,
+    });
+  });
+
+  it('builds customer.subscription.trial_will_end', () => {
+    expect(build('customer.subscription.trial_will_end').payload).toEqual({
+      ...subscription,
+      status: 'trialing',
+      trial_end: THREE_DAYS_LATER,
+    });
+  });
+
+  it('builds invoice.paid', () => {
+    expect(build('invoice.paid').payload).toEqual(invoice);
+  });
+
+  it('builds invoice.payment_failed', () => {
+    expect(build('invoice.payment_failed').payload).toEqual({
+      ...invoice,
+      status: 'open',
+      amount_paid: '$0.00',
+      amount_remaining: '$19.99',
+      attempt_count: 2,
+      next_payment_attempt: THREE_DAYS_LATER,
+    });
+  });
+
+  it('builds invoice.upcoming, which has no ID or number yet', () => {
+    expect(build('invoice.upcoming').payload).toEqual({
+      ...invoice,
+      invoice_id: '',
+      invoice_number: '',
+      status: 'draft',
+      amount_paid: '$0.00',
+      amount_remaining: '$19.99',
+    });
+  });
+
+  it('builds checkout.session.completed', () => {
+    expect(build('checkout.session.completed').payload).toEqual({
+      checkout_session_id: 'cs_test_SimulatedSession0',
+      mode: 'subscription',
+      payment_status: 'paid',
+      amount_total: '$19.99',
+      customer_email: FIXTURE_EMAIL,
+      customer_name: 'Ada Lovelace',
+      subscription_id: FIXTURE_SUBSCRIPTION_ID,
+      invoice_id: FIXTURE_INVOICE_ID,
+    });
+  });
+
+  it('builds charge.refunded', () => {
+    expect(build('charge.refunded').payload).toEqual({
+      charge_id: 'ch_SimulatedCharge0',
+      description: 'Pro subscription',
+      amount: '$19.99',
+      amount_refunded: '$19.99',
+      fully_refunded: true,
+      receipt_url: 'https://pay.stripe.com/receipts/simulated',
+      invoice_id: FIXTURE_INVOICE_ID,
+    });
+  });
+
+  it('does not support events without a builder', () => {
+    expect(isSupportedStripeEvent(stripeFixtures['customer.created']())).toBe(false);
+  });
+});
+
+describe('formatAmount', () => {
+  it('formats amounts in the smallest currency unit', () => {
+    expect(formatAmount(1999, 'usd')).toBe('$19.99');
+    expect(formatAmount(500, 'EUR')).toBe('€5.00');
+  });
+
+  it('does not divide zero-decimal currencies', () => {
+    expect(formatAmount(1999, 'jpy')).toBe('¥1,999');
+  });
+
+  it('is empty without an amount or currency', () => {
+    expect(formatAmount(null, 'usd')).toBe('');
+    expect(formatAmount(undefined, 'usd')).toBe('');
+    expect(formatAmount(1999, null)).toBe('');
+  });
+});
+
+describe('planName', () => {
+  it('prefers the price nickname', () => {
+    expect(planName(price())).toBe('Pro');
+  });
+
+  it('falls back to the name of an expanded product', () => {
+    const product = { id: 'prod_SimulatedPro0', object: 'product', name: 'Pro plan' } as Stripe.Product;
+
+    expect(planName(price({ nickname: null, product }))).toBe('Pro plan');
+  });
+
+  it('falls back to the lookup key when the product is not expanded', () => {
+    expect(planName(price({ nickname: null }))).toBe('pro_monthly');
+  });
+
+  it('is empty without a price', () => {
+    expect(planName(null)).toBe('');
+    expect(planName(price({ nickname: null, lookup_key: null }))).toBe('');
+  });
+});
@@ -0,0 +1,232 @@
+import type Stripe from 'stripe';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST } from '../app/api/webhooks/stripe/route';
+import { listLoggedEvents } from '../app/utils/event-log';
+import {
+  CLERK_ORGANIZATION_ID_METADATA_KEY,
+  CLERK_USER_ID_METADATA_KEY,
+  createCustomerForUser,
+} from '../app/utils/identity-links';
+import { isSupportedStripeEvent } from '../app/utils/stripe-payloads';
+import { getStripe } from '../app/utils/stripe-client';
+import { getSubscriptionState } from '../app/utils/subscription-store';
+import { FIXTURE_ORGANIZATION_ID, FIXTURE_USER_ID } from '../scripts/fixtures/clerk-events';
+import { FIXTURE_CUSTOMER_ID, stripeFixtures } from '../scripts/fixtures/stripe-events';
+import { webhookEventsRejected } from '../app/utils/metrics';
+import { TEST_SECRETS, rawWebhookRequest, recordingTransport, webhookRequest } from './helpers';
+
+const stripe = getStripe();
+const SUPPORTED_FIXTURES = Object.keys(stripeFixtures).filter((key) => isSupportedStripeEvent(stripeFixtures[key]()));
+
+function customer(metadata: Record<string, string> = {}): Stripe.Customer {
+  const fixture = stripeFixtures['customer.created']().data.object as Stripe.Customer;
+  return { ...fixture, metadata };
+}
+
+function list<T>(data: T[]) {
+  return { object: 'list', data, has_more: false, url: '' } as unknown as Stripe.ApiListPromise<T>;
+}
+
+describe('Stripe webhook route', () => {
+  beforeEach(() => {
+    vi.spyOn(stripe.customers, 'retrieve').mockResolvedValue(customer() as Stripe.Response<Stripe.Customer>);
+    vi.spyOn(stripe.subscriptions, 'list').mockReturnValue(list<Stripe.Subscription>([]));
+    vi.spyOn(stripe.invoices, 'list').mockReturnValue(list<Stripe.Invoice>([]));
+  });
+
+  it.each(SUPPORTED_FIXTURES)('triggers the workflow for %s', async (fixture) => {
+    const response = await POST(webhookRequest('stripe', stripeFixtures[fixture]()));
+
+    expect(response.status).toBe(200);
+    expect(recordingTransport().triggers).toMatchSnapshot();
+  });
+
+  it('notifies the linked Clerk user, branded for their organization', async () => {
+    vi.mocked(stripe.customers.retrieve).mockResolvedValue(
+      customer({
+        [CLERK_USER_ID_METADATA_KEY]: FIXTURE_USER_ID,
+        [CLERK_ORGANIZATION_ID_METADATA_KEY]: FIXTURE_ORGANIZATION_ID,
+      }) as Stripe.Response<Stripe.Customer>
+    );
+
+    await POST(webhookRequest('stripe', stripeFixtures['invoice.paid']()));
+
+    const [trigger] = recordingTransport().triggers;
+    expect(trigger.to).toEqual({ subscriberId: FIXTURE_USER_ID });
+    expect(trigger.tenant).toEqual({ identifier: FIXTURE_ORGANIZATION_ID });
+  });
+
+  it('leaves out the email of a customer who has none', async () => {
+    vi.mocked(stripe.customers.retrieve).mockResolvedValue({ ...customer(), email: null } as Stripe.Response<Stripe.Customer>);
+
+    await POST(webhookRequest('stripe', stripeFixtures['invoice.paid']()));
+
+    const [trigger] = recordingTransport().triggers;
+    expect(trigger.to).toMatchObject({ subscriberId: FIXTURE_CUSTOMER_ID });
+    expect(trigger.to).not.toHaveProperty('email');
+  });
+
+  it('notifies the Clerk user of a customer created at checkout, before checkout completes', async () => {
+    vi.spyOn(stripe.customers, 'create').mockResolvedValue(customer() as Stripe.Response<Stripe.Customer>);
+    await createCustomerForUser(FIXTURE_USER_ID, { email: 'ada@example.com' });
+
+    await POST(webhookRequest('stripe', stripeFixtures['customer.subscription.created']()));
+
+    expect(stripe.customers.create).toHaveBeenCalledWith(
+      expect.objectContaining({ metadata: { [CLERK_USER_ID_METADATA_KEY]: FIXTURE_USER_ID } }),
+      { idempotencyKey: `clerk-customer-${FIXTURE_USER_ID}` }
+    );
+    const [trigger] = recordingTransport().triggers;
+    expect(trigger.to).toEqual({ subscriberId: FIXTURE_USER_ID });
+  });
+
+  it('skips events for a deleted customer without failing the delivery', async () => {
+    vi.mocked(stripe.customers.retrieve).mockResolvedValue({
+      id: FIXTURE_CUSTOMER_ID,
+      object: 'customer',
+      deleted: true,
+    } as unknown as Stripe.Response<Stripe.Customer>);
+
+    const response = await POST(webhookRequest('stripe', stripeFixtures['customer.subscription.deleted']()));
+
+    expect(response.status).toBe(200);
+    expect(recordingTransport().triggers).toEqual([]);
+    const [logged] = await listLoggedEvents();
+    expect(logged).toMatchObject({ status: 'filtered', verified: true });
+  });
+
+  it('syncs the subscription state on subscription events', async () => {
+    const subscription = stripeFixtures['customer.subscription.created']().data.object as Stripe.Subscription;
+    vi.mocked(stripe.subscriptions.list).mockReturnValue(list([subscription]));
+
+    await POST(webhookRequest('stripe', stripeFixtures['customer.subscription.created']()));
+
+    expect(await getSubscriptionState(FIXTURE_CUSTOMER_ID)).toMatchObject({
+      status: 'active',
+      subscriptionId: subscription.id,
+      planName: 'Pro',
+      unitAmount: 1999,
+    });
+  });
+
+  it('accepts unsupported events without triggering anything', async () => {
+    const response = await POST(webhookRequest('stripe', stripeFixtures['customer.created']()));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'Success' });
+    expect(recordingTransport().triggers).toEqual([]);
+    const [logged] = await listLoggedEvents();
+    expect(logged).toMatchObject({ status: 'unrouted', type: 'customer.created', verified: true });
+  });
+
+  it('processes a redelivered event only once', async () => {
+    const event = stripeFixtures['invoice.paid']();
+    await POST(webhookRequest('stripe', event));
+    const second = await POST(webhookRequest('stripe', event));
+
+    expect(await second.text()).toBe('Webhook already processed');
+    expect(recordingTransport().triggers).toHaveLength(1);
+  });
+
+  it.each([
+    ['signature', 'invalid_signature'],
+    ['body', 'invalid_signature'],
+    ['stale', 'expired_timestamp'],
+    ['future', 'future_timestamp'],
+    ['missing-headers', 'missing_headers'],
+  ] as const)(
+    'rejects a delivery with a tampered %s',
+    async (tamper, code) => {
+      const response = await POST(webhookRequest('stripe', stripeFixtures['invoice.paid'](), { tamper }));
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ status: 'Failed', error: code });
+      expect(recordingTransport().triggers).toEqual([]);
+      const [logged] = await listLoggedEvents();
+      expect(logged).toMatchObject({ status: 'rejected', verified: false });
+    }
+  );
+
+  it('rejects a signed body that is not JSON', async () => {
+    const response = await POST(rawWebhookRequest('stripe', '{"id": "evt_truncated'));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ status: 'Failed', error: 'invalid_payload' });
+    const [logged] = await listLoggedEvents();
+    expect(logged).toMatchObject({ status: 'rejected', verified: false });
+    expect(webhookEventsRejected.get({ source: 'stripe', type: 'unknown' })).toBe(1);
+  });
+
+  describe('signing secret rotation', () => {
+    const NEW_SECRET = 'whsec_rotated_stripe_secret';
+
+    afterEach(() => {
+      process.env.STRIPE_WEBHOOK_SECRET = TEST_SECRETS.stripe;
+    });
+
+    it('accepts deliveries signed with any listed secret', async () => {
+      process.env.STRIPE_WEBHOOK_SECRET = `${NEW_SECRET},${TEST_SECRETS.stripe}`;
+
+      await POST(webhookRequest('stripe', stripeFixtures['invoice.paid'](), { secret: NEW_SECRET }));
+      await POST(webhookRequest('stripe', stripeFixtures['invoice.payment_failed']()));
+
+      expect(recordingTransport().triggers).toHaveLength(2);
+    });
+
+    it('rejects deliveries signed with a secret that is no longer listed', async () => {
+      process.env.STRIPE_WEBHOOK_SECRET = NEW_SECRET;
+
+      const response = await POST(webhookRequest('stripe', stripeFixtures['invoice.paid']()));
+
+      expect(await response.json()).toMatchObject({ status: 'Failed', error: 'invalid_signature' });
+      expect(recordingTransport().triggers).toEqual([]);
+    });
+  });
+
+  describe('downstream failures', () => {
+    it('queues the trigger for retry when Novu fails', async () => {
+      recordingTransport().failWith = new Error('Novu is down');
+
+      const response = await POST(webhookRequest('stripe', stripeFixtures['invoice.payment_failed']()));
+
+      expect(response.status).toBe(202);
+      const [logged] = await listLoggedEvents();
+      expect(logged.triggers).toEqual([
+        { workflowId: 'invoice-payment-failed', subscriberId: FIXTURE_CUSTOMER_ID, outcome: 'queued' },
+      ]);
+    });
+
+    it('fails the delivery when the customer cannot be loaded', async () => {
+      vi.mocked(stripe.customers.retrieve).mockRejectedValue(new Error('Stripe is down'));
+
+      const response = await POST(webhookRequest('stripe', stripeFixtures['invoice.paid']()));
+
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({ status: 'Failed', error: 'Stripe is down' });
+      const [logged] = await listLoggedEvents();
+      expect(logged).toMatchObject({ status: 'failed', verified: true, error: 'Stripe is down' });
+    });
+
+    it('fails the delivery when the subscription state cannot be synced', async () => {
+      vi.mocked(stripe.subscriptions.list).mockRejectedValue(new Error('Stripe is down'));
+
+      const response = await POST(webhookRequest('stripe', stripeFixtures['customer.subscription.created']()));
+
+      expect(response.status).toBe(500);
+      expect(recordingTransport().triggers).toEqual([]);
+      const [logged] = await listLoggedEvents();
+      expect(logged).toMatchObject({ status: 'failed', verified: true, error: 'Stripe is down' });
+    });
+
+    it('processes the event when Stripe retries a failed delivery', async () => {
+      const event = stripeFixtures['invoice.paid']();
+      vi.mocked(stripe.customers.retrieve).mockRejectedValueOnce(new Error('Stripe is down'));
+      await POST(webhookRequest('stripe', event));
+
+      const retry = await POST(webhookRequest('stripe', event));
+
+      expect(retry.status).toBe(200);
+      expect(recordingTransport().triggers).toHaveLength(1);
+    });
+  });
+});